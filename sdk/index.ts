@@ -40,10 +40,43 @@ export type FlagValues<FD extends FlagSchema = FlagSchema> = {
 	[K in keyof FD]: FlagValue<FD[K]>;
 };
 
+export type EvaluationReason = {
+	kind:
+		| "DISABLED"
+		| "EXPIRED"
+		| "PREREQUISITE_FAILED"
+		| "TARGET_MATCH"
+		| "TARGET_EXCLUDED"
+		| "HOLDOUT"
+		| "SCHEDULE_MISMATCH"
+		| "RULE_MISMATCH"
+		| "SEGMENT_MISMATCH"
+		| "LAYER_EXCLUDED"
+		| "ROLLOUT_EXCLUDED"
+		| "ROLLOUT_STEP_MATCHED"
+		| "RULE_MATCH"
+		| "FALLTHROUGH"
+		| "UNALLOCATED"
+		| "ERROR";
+	stepIndex?: number;
+	ruleIndex?: number;
+	prerequisite?: string;
+	layer?: string;
+	errorMessage?: string;
+};
+
 export type EvaluatedFlags<FD extends FlagSchema = FlagSchema> = {
 	[K in keyof FD]: {
 		type: FD[K]["type"];
 		result: FlagValue<FD[K]>;
+		/**
+		 * Why the flag evaluated to this result. Only present when `detail` is enabled.
+		 */
+		reason?: EvaluationReason;
+		/**
+		 * ID of the served variation for variant flags. Only present when `detail` is enabled.
+		 */
+		variation?: string;
 	};
 };
 
@@ -83,6 +116,12 @@ export type FlagglyOptions<TFlags extends FlagSchema = FlagSchema> = {
 	 * @default false
 	 */
 	lazy?: boolean;
+	/**
+	 * Request evaluation details with every evaluation.
+	 * When enabled, each flag also includes the evaluation `reason` and the served `variation` ID.
+	 * @default false
+	 */
+	detail?: boolean;
 	/**
 	 * Default values for the feature flags.
 	 */
@@ -129,6 +168,7 @@ export class Flaggly<TFlags extends FlagSchema = FlagSchema> {
 	private apiKey: string;
 	private app: string;
 	private env: string;
+	private detail: boolean;
 	private storage: CustomStorage;
 	private getCurrentRoute?: () => string | null;
 
@@ -148,6 +188,7 @@ export class Flaggly<TFlags extends FlagSchema = FlagSchema> {
 		app = "default",
 		env = "production",
 		lazy = false,
+		detail = false,
 		bootstrap,
 		getBackupId,
 		workerFetch,
@@ -159,6 +200,7 @@ export class Flaggly<TFlags extends FlagSchema = FlagSchema> {
 		this.apiKey = apiKey;
 		this.app = app;
 		this.env = env;
+		this.detail = detail;
 		this.getBackupId = getBackupId;
 		this.getCurrentRoute = getCurrentRoute;
 		this.workerFetch = workerFetch ?? fetch;
@@ -282,22 +324,29 @@ export class Flaggly<TFlags extends FlagSchema = FlagSchema> {
 		return response.json();
 	}
 
+	#evalPath(path: string) {
+		return this.detail ? `${path}?detail=true` : path;
+	}
+
 	/**
 	 * Evaluates all flags for a user and updates local state.
 	 * @param input
 	 * @returns
 	 */
 	async fetchFlags(input?: FlagInput): Promise<EvaluatedFlags<TFlags>> {
-		const result = await this.#request<EvaluatedFlags<TFlags>>("/api/eval", {
-			method: "POST",
-			body: {
-				id: input?.id ?? this.id ?? this.#getBackupId(),
-				user: input?.user ?? this.user,
-				page: {
-					url: this.#getPageUrl(),
+		const result = await this.#request<EvaluatedFlags<TFlags>>(
+			this.#evalPath("/api/eval"),
+			{
+				method: "POST",
+				body: {
+					id: input?.id ?? this.id ?? this.#getBackupId(),
+					user: input?.user ?? this.user,
+					page: {
+						url: this.#getPageUrl(),
+					},
 				},
 			},
-		});
+		);
 
 		if (result) {
 			this.#flags.set(result);
@@ -316,7 +365,7 @@ export class Flaggly<TFlags extends FlagSchema = FlagSchema> {
 		input?: FlagInput,
 	): Promise<EvaluatedFlags<TFlags>[K]> {
 		const result = await this.#request<EvaluatedFlags<TFlags>[K]>(
-			`/api/eval/${String(key)}`,
+			this.#evalPath(`/api/eval/${String(key)}`),
 			{
 				method: "POST",
 				body: {
@@ -353,6 +402,19 @@ export class Flaggly<TFlags extends FlagSchema = FlagSchema> {
 		return flags?.[key]?.result;
 	}
 
+	/**
+	 * Get a single flag result with its evaluation details.
+	 * The `reason` and `variation` are only present when the instance is created with `detail: true`.
+	 * @param key
+	 * @returns
+	 */
+	getFlagDetail<K extends keyof TFlags>(
+		key: K,
+	): EvaluatedFlags<TFlags>[K] | undefined {
+		const flags = this.#flags.get();
+		return flags?.[key];
+	}
+
 	/**
 	 * Get a single boolean flag results. Only boolean flag keys are valid.
 	 * @param key
@@ -0,0 +1,312 @@
+import { sign } from "hono/jwt";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { createApp } from "../routes/_app";
+import { api } from "../routes/api";
+import type { FeatureFlagInputSchema } from "../schema";
+import { AppKV } from "../storage";
+
+const JWT_SECRET = "test-secret";
+
+function createMockKV(): KVNamespace {
+	const store = new Map<string, { value: string; metadata: unknown }>();
+
+	return {
+		get: vi.fn(async (key: string, options?: string | { type?: string }) => {
+			const item = store.get(key);
+			if (!item) return null;
+
+			const type = typeof options === "string" ? options : options?.type;
+			return type === "json" ? JSON.parse(item.value) : item.value;
+		}),
+		getWithMetadata: vi.fn(
+			async (key: string, options?: string | { type?: string }) => {
+				const item = store.get(key);
+				if (!item) {
+					return { value: null, metadata: null };
+				}
+
+				const type = typeof options === "string" ? options : options?.type;
+
+				return {
+					value: type === "json" ? JSON.parse(item.value) : item.value,
+					metadata: item.metadata,
+				};
+			},
+		),
+		put: vi.fn(
+			async (key: string, value: string, options?: { metadata?: unknown }) => {
+				store.set(key, { value, metadata: options?.metadata ?? null });
+			},
+		),
+		delete: vi.fn(async (key: string) => {
+			store.delete(key);
+		}),
+		list: vi.fn(),
+	} as unknown as KVNamespace;
+}
+
+function createEnv(overrides?: Partial<Env>): Env {
+	return {
+		JWT_SECRET,
+		ENABLE_ANALYTICS: "false",
+		FLAGGLY_RATE_LIMITER: { limit: async () => ({ success: true }) },
+		FLAGGLY_ANALYTICS: { writeDataPoint: vi.fn() },
+		...overrides,
+	} as unknown as Env;
+}
+
+const executionCtx = {
+	waitUntil: vi.fn(),
+	passThroughOnException: vi.fn(),
+	props: {},
+} as unknown as ExecutionContext;
+
+describe("API routes", () => {
+	let kv: KVNamespace;
+	let appKV: AppKV;
+	let token: string;
+
+	const createApi = () => {
+		const app = createApp();
+		app.use((c, next) => {
+			c.set("kv", appKV);
+			return next();
+		});
+		app.route("/api", api);
+		return app;
+	};
+
+	const evaluate = async ({
+		flagKey,
+		headers,
+		env,
+	}: {
+		flagKey: string;
+		headers: Record<string, string>;
+		env: Env;
+	}) => {
+		const response = await createApi().request(
+			`/api/eval/${flagKey}?detail=true`,
+			{
+				method: "POST",
+				headers: {
+					authorization: `Bearer ${token}`,
+					"content-type": "application/json",
+					...headers,
+				},
+				body: JSON.stringify({
+					id: "user-1",
+					user: { id: "user-1" },
+					page: { url: null },
+				}),
+			},
+			env,
+			executionCtx,
+		);
+		return { status: response.status, body: await response.json() };
+	};
+
+	beforeEach(async () => {
+		kv = createMockKV();
+		appKV = new AppKV({ kv, app: "test-app", env: "test-env" });
+		token = await sign({ iss: "flaggly.user" }, JWT_SECRET);
+	});
+
+	describe("Client IP", () => {
+		const officeFlag: FeatureFlagInputSchema = {
+			id: "office-only",
+			enabled: true,
+			type: "boolean",
+			rules: ["ip == '203.0.113.7'"],
+			segments: [],
+			rollout: 100,
+			rollouts: [],
+			isTrackable: false,
+		};
+
+		beforeEach(async () => {
+			await appKV.putFlag({ flag: officeFlag });
+		});
+
+		test("uses the first hop of the trusted header", async () => {
+			const { body } = await evaluate({
+				flagKey: "office-only",
+				headers: {
+					"x-forwarded-for": "203.0.113.7, 10.0.0.1",
+					"cf-connecting-ip": "198.51.100.1",
+				},
+				env: createEnv({ TRUSTED_IP_HEADER: "x-forwarded-for" }),
+			});
+
+			expect(body).toMatchObject({ result: true });
+		});
+
+		test("falls back to CF-Connecting-IP when the trusted value is not an IP", async () => {
+			const { body } = await evaluate({
+				flagKey: "office-only",
+				headers: {
+					"x-forwarded-for": "unknown, 10.0.0.1",
+					"cf-connecting-ip": "203.0.113.7",
+				},
+				env: createEnv({ TRUSTED_IP_HEADER: "x-forwarded-for" }),
+			});
+
+			expect(body).toMatchObject({ result: true });
+		});
+
+		test("ignores the header when TRUSTED_IP_HEADER is not set", async () => {
+			const { body } = await evaluate({
+				flagKey: "office-only",
+				headers: {
+					"x-forwarded-for": "203.0.113.7",
+					"cf-connecting-ip": "198.51.100.1",
+				},
+				env: createEnv(),
+			});
+
+			expect(body).toMatchObject({
+				result: false,
+				reason: { kind: "RULE_MISMATCH" },
+			});
+		});
+	});
+
+	describe("Lists", () => {
+		const shardReads = () =>
+			vi
+				.mocked(kv.get)
+				.mock.calls.filter(([key]) => String(key).includes(":lists:"));
+
+		beforeEach(async () => {
+			await appKV.putList({ list: { id: "staff" } });
+			await appKV.putList({ list: { id: "unused" } });
+			await appKV.addListMembers({ id: "staff", ids: ["user-1"] });
+			await appKV.putFlag({
+				flag: {
+					id: "staff-only",
+					enabled: true,
+					type: "boolean",
+					rules: ["inList('staff', id)"],
+					segments: [],
+					rollout: 100,
+					rollouts: [],
+					isTrackable: false,
+				},
+			});
+			vi.mocked(kv.get).mockClear();
+		});
+
+		test("reads only the lists the expressions call", async () => {
+			const { body } = await evaluate({
+				flagKey: "staff-only",
+				headers: {},
+				env: createEnv(),
+			});
+
+			expect(body).toMatchObject({ result: true });
+			expect(shardReads().length).toBeGreaterThan(0);
+			expect(
+				shardReads().every(([key]) => String(key).includes(":lists:staff:")),
+			).toBe(true);
+		});
+
+		test("reads no list for a missing flag", async () => {
+			const { status } = await evaluate({
+				flagKey: "missing",
+				headers: {},
+				env: createEnv(),
+			});
+
+			expect(status).toBe(404);
+			expect(shardReads()).toEqual([]);
+		});
+	});
+
+	describe("Evaluation errors", () => {
+		test("records a data point for failures of untracked flags", async () => {
+			const env = createEnv({ ENABLE_ANALYTICS: "true" });
+			const log = vi.spyOn(console, "error").mockImplementation(() => {});
+			await appKV.putFlag({
+				flag: {
+					id: "broken",
+					enabled: true,
+					type: "boolean",
+					rules: ["user.email|lower == 'a@example.com'"],
+					segments: [],
+					rollout: 100,
+					rollouts: [],
+					isTrackable: false,
+				},
+			});
+
+			const { body } = await evaluate({ flagKey: "broken", headers: {}, env });
+
+			expect(body).toMatchObject({ reason: { kind: "ERROR" } });
+			expect(env.FLAGGLY_ANALYTICS.writeDataPoint).toHaveBeenCalledWith(
+				expect.objectContaining({
+					blobs: expect.arrayContaining(["broken"]),
+					doubles: [0, 1, 100, 1, 0, 0, 1],
+				}),
+			);
+			expect(log).toHaveBeenCalledWith(
+				expect.objectContaining({ flag: "broken" }),
+			);
+			log.mockRestore();
+		});
+
+		test("keeps failures when the batch has more data points than the cap", async () => {
+			const env = createEnv({ ENABLE_ANALYTICS: "true" });
+			const log = vi.spyOn(console, "error").mockImplementation(() => {});
+			for (let index = 0; index < 30; index++) {
+				await appKV.putFlag({
+					flag: {
+						id: `tracked-${index}`,
+						enabled: true,
+						type: "boolean",
+						rules: [],
+						segments: [],
+						rollout: 100,
+						rollouts: [],
+						isTrackable: true,
+					},
+				});
+			}
+			await appKV.putFlag({
+				flag: {
+					id: "broken",
+					enabled: true,
+					type: "boolean",
+					rules: ["user.email|lower == 'a@example.com'"],
+					segments: [],
+					rollout: 100,
+					rollouts: [],
+					isTrackable: false,
+				},
+			});
+
+			await createApi().request(
+				"/api/eval",
+				{
+					method: "POST",
+					headers: {
+						authorization: `Bearer ${token}`,
+						"content-type": "application/json",
+					},
+					body: JSON.stringify({
+						id: "user-1",
+						user: { id: "user-1" },
+						page: { url: null },
+					}),
+				},
+				env,
+				executionCtx,
+			);
+
+			expect(env.FLAGGLY_ANALYTICS.writeDataPoint).toHaveBeenCalledTimes(24);
+			expect(env.FLAGGLY_ANALYTICS.writeDataPoint).toHaveBeenCalledWith(
+				expect.objectContaining({ blobs: expect.arrayContaining(["broken"]) }),
+			);
+			log.mockRestore();
+		});
+	});
+});
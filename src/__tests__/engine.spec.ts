@@ -1,10 +1,27 @@
 import { describe, expect, test } from "vitest";
 import {
+	assignBuckets,
+	chooseVariant,
+	createEngine,
 	evaluateFlag,
 	evaluateRolloutStep,
 	evaluateRolloutSteps,
+	findListReferences,
+	findSegmentReferences,
+	getRampPercentage,
+	hashFnv32a,
+	isUserInHoldout,
+	isUserInLayerAllocation,
+	isUserInRollout,
+	userBucketHash,
+	userPercentageHash,
 } from "../engine";
-import type { FeatureFlagInputSchema, FlagEvaluationInput } from "../schema";
+import {
+	type FeatureFlagInputSchema,
+	type FlagEvaluationInput,
+	scheduleWindow,
+} from "../schema";
+import { compareSemver, satisfiesSemver } from "../semver";
 
 function createMockInput(
 	overrides?: Partial<FlagEvaluationInput>,
@@ -140,6 +157,26 @@ describe("evaluateRolloutStep", () => {
 
 		expect(result).toBe(true);
 	});
+
+	test("returns false from the step end", () => {
+		const step = {
+			start: "2024-01-01T00:00:00.000Z",
+			end: "2024-02-01T00:00:00.000Z",
+			percentage: 100,
+		};
+		const evaluateAt = (date: string) =>
+			evaluateRolloutStep({
+				step,
+				segments: {},
+				userId: "user-123",
+				flagKey: "test-flag",
+				input: createMockInput(),
+				now: new Date(date).getTime(),
+			});
+
+		expect(evaluateAt("2024-01-31T23:59:59.000Z")).toBe(true);
+		expect(evaluateAt("2024-02-01T00:00:00.000Z")).toBe(false);
+	});
 });
 
 describe("evaluateRolloutSteps", () => {
@@ -177,6 +214,114 @@ describe("evaluateRolloutSteps", () => {
 	});
 });
 
+describe("Semantic versions", () => {
+	const evaluateVersion = (rule: string, appVersion: string) =>
+		evaluateFlag({
+			input: createMockInput({ user: { id: "user-123", appVersion } }),
+			flag: createMockBooleanFlag({ rules: [rule] }),
+			segments: {},
+		}).isEval;
+
+	test("compares versions numerically instead of as strings", () => {
+		expect(compareSemver("1.10.0", "1.9.0")).toBe(1);
+		expect(compareSemver("1.0.0-beta.2", "1.0.0")).toBe(-1);
+		expect(compareSemver("v2.1", "2.1.0")).toBe(0);
+		expect(compareSemver("latest", "1.0.0")).toBeNull();
+
+		expect(
+			evaluateVersion("user.appVersion|semverCompare('1.9.0') > 0", "1.10.0"),
+		).toBe(true);
+		expect(
+			evaluateVersion("semverCompare(user.appVersion, '1.10.0') >= 0", "1.9.0"),
+		).toBe(false);
+	});
+
+	test.each([
+		["1.4.2", ">=1.2.0 <2.0.0", true],
+		["2.0.0", "^1.2.0", false],
+		["0.2.9", "^0.2.3", true],
+		["1.3.0", "~1.2.3", false],
+		["1.7.1", "1.x", true],
+		["1.5.0", "1.2.0 - 1.4.0", false],
+		["3.1.0", "<2.0.0 || >=3.0.0", true],
+		["1.0.0-rc.1", ">=1.0.0", false],
+		["not-a-version", "*", false],
+	])("%s satisfies %s: %s", (version, range, expected) => {
+		expect(satisfiesSemver(version, range)).toBe(expected);
+		expect(
+			evaluateVersion(`user.appVersion|satisfies('${range}')`, version),
+		).toBe(expected);
+		expect(
+			evaluateVersion(`semverSatisfies(user.appVersion, '${range}')`, version),
+		).toBe(expected);
+	});
+
+	test("extracts major, minor and patch", () => {
+		expect(evaluateVersion("user.appVersion|major == 2", "2.14.3")).toBe(true);
+		expect(evaluateVersion("user.appVersion|minor >= 10", "2.14.3")).toBe(true);
+		expect(evaluateVersion("user.appVersion|patch == 3", "2.14.3")).toBe(true);
+		expect(evaluateVersion("user.appVersion|major == null", "beta")).toBe(true);
+	});
+});
+
+describe("createEngine", () => {
+	test("evaluates now() with the injected clock", () => {
+		const engine = createEngine({
+			clock: () => new Date("2025-06-01").getTime(),
+		});
+		const flag = createMockBooleanFlag({
+			rules: ["now() >= ts('2025-01-01') && now() < ts('2026-01-01')"],
+		});
+
+		const result = engine.evaluateFlag({
+			input: createMockInput(),
+			flag,
+			segments: {},
+		});
+
+		expect(result.isEval).toBe(true);
+	});
+
+	test("prefers the evaluation's now over the clock", () => {
+		const engine = createEngine({
+			clock: () => new Date("2025-06-01").getTime(),
+		});
+		const flag = createMockBooleanFlag({
+			rules: ["now() >= ts('2026-01-01')"],
+		});
+
+		const result = engine.evaluateFlag({
+			input: createMockInput(),
+			flag,
+			segments: {},
+			now: new Date("2026-06-01").getTime(),
+		});
+
+		expect(result.isEval).toBe(true);
+		expect(engine.jexl.evalSync("now()")).toBe(
+			new Date("2025-06-01").getTime(),
+		);
+	});
+
+	test("keeps custom transforms and functions to its own instance", () => {
+		const engine = createEngine({
+			transforms: { reverse: (val) => [...String(val)].reverse().join("") },
+			functions: { answer: () => 42 },
+		});
+		const flag = createMockBooleanFlag({
+			rules: ["user.id|reverse == '321-resu' && answer() == 42"],
+		});
+		const input = createMockInput();
+
+		expect(engine.evaluateFlag({ input, flag, segments: {} }).isEval).toBe(
+			true,
+		);
+		expect(evaluateFlag({ input, flag, segments: {} }).reason.kind).toBe(
+			"ERROR",
+		);
+	});
+});
+
 describe("evaluateFlag", () => {
 	describe("Boolean Flags", () => {
 		test("returns true when all conditions pass (happy path)", () => {
@@ -185,7 +330,7 @@ describe("evaluateFlag", () => {
 
 			const result = evaluateFlag({ input, flag, segments: {} });
 
-			expect(result).toEqual({ type: "boolean", result: true, isEval: true });
+			expect(result).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "FALLTHROUGH" } });
 		});
 	});
 
@@ -210,7 +355,7 @@ describe("evaluateFlag", () => {
 			});
 
 			// Should pass because user matches premiumUsers (OR logic)
-			expect(result).toEqual({ type: "boolean", result: true, isEval: true });
+			expect(result).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "FALLTHROUGH" } });
 		});
 
 		test("returns false when NO segments match", () => {
@@ -233,7 +378,7 @@ describe("evaluateFlag", () => {
 			});
 
 			// Should fail because user matches NO segments
-			expect(result).toEqual({ type: "boolean", result: false, isEval: false });
+			expect(result).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "SEGMENT_MISMATCH" } });
 		});
 
 		test("passes when user matches second segment but not first", () => {
@@ -256,7 +401,155 @@ describe("evaluateFlag", () => {
 			});
 
 			// Should pass because user matches betaUsers (OR logic)
-			expect(result).toEqual({ type: "boolean", result: true, isEval: true });
+			expect(result).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "FALLTHROUGH" } });
+		});
+	});
+
+	describe("Composed segments", () => {
+		const segments = {
+			beta: "user.beta == true",
+			eu: "geo.isEUCountry == true",
+			"beta-eu": "segment('beta') && segment('eu')",
+			"beta-outside-eu": "segment('beta') && !segment('eu')",
+		};
+		const euBeta = createMockInput({
+			user: { id: "user-123", beta: true },
+			geo: { country: "DE", isEUCountry: true },
+		});
+		const usBeta = createMockInput({ user: { id: "user-123", beta: true } });
+
+		test("resolves segments referenced by other segments", () => {
+			const flag = createMockBooleanFlag({ segments: ["beta-eu"] });
+
+			expect(evaluateFlag({ input: euBeta, flag, segments }).isEval).toBe(true);
+			expect(evaluateFlag({ input: usBeta, flag, segments })).toEqual({
+				type: "boolean",
+				result: false,
+				isEval: false,
+				reason: { kind: "SEGMENT_MISMATCH" },
+			});
+		});
+
+		test("negates referenced segments", () => {
+			const flag = createMockBooleanFlag({ segments: ["beta-outside-eu"] });
+
+			expect(evaluateFlag({ input: euBeta, flag, segments }).isEval).toBe(false);
+			expect(evaluateFlag({ input: usBeta, flag, segments }).isEval).toBe(true);
+		});
+
+		test("resolves segments in flag rules", () => {
+			const flag = createMockBooleanFlag({ rules: ["segment('beta-eu')"] });
+
+			expect(evaluateFlag({ input: euBeta, flag, segments }).isEval).toBe(true);
+			expect(evaluateFlag({ input: usBeta, flag, segments }).reason).toEqual({
+				kind: "RULE_MISMATCH",
+			});
+		});
+
+		test("never matches unknown segments", () => {
+			const flag = createMockBooleanFlag({ rules: ["segment('missing')"] });
+
+			expect(evaluateFlag({ input: euBeta, flag, segments }).reason).toEqual({
+				kind: "RULE_MISMATCH",
+			});
+		});
+
+		test("fails the flag on a reference cycle", () => {
+			const flag = createMockBooleanFlag({ segments: ["a"] });
+			const cyclic = { a: "segment('b')", b: "segment('a')" };
+
+			const result = evaluateFlag({ input: euBeta, flag, segments: cyclic });
+
+			expect(result.reason.kind).toBe("ERROR");
+			expect(result.reason.errorMessage).toContain("Segment cycle detected");
+		});
+
+		test("finds the segments an expression references", () => {
+			expect(
+				findSegmentReferences("segment('beta') && !segment(\"eu\")"),
+			).toEqual({ segments: ["beta", "eu"], isDynamic: false });
+			expect(findSegmentReferences("segment(user.segment)")).toEqual({
+				segments: [],
+				isDynamic: true,
+			});
+		});
+	});
+
+	describe("Lists", () => {
+		const lists = { "beta-customers": new Set(["user-123", "42"]) };
+		const member = createMockInput({ user: { id: "user-123" } });
+		const other = createMockInput({ user: { id: "user-456" } });
+
+		test("checks list membership in rules", () => {
+			const flag = createMockBooleanFlag({
+				rules: ["inList('beta-customers', user.id)"],
+			});
+
+			expect(
+				evaluateFlag({ input: member, flag, segments: {}, lists }).isEval,
+			).toBe(true);
+			expect(
+				evaluateFlag({ input: other, flag, segments: {}, lists }).reason,
+			).toEqual({ kind: "RULE_MISMATCH" });
+		});
+
+		test("compares numeric IDs as strings", () => {
+			const flag = createMockBooleanFlag({
+				rules: ["inList('beta-customers', user.accountId)"],
+			});
+			const input = createMockInput({ user: { id: "user-1", accountId: 42 } });
+
+			expect(evaluateFlag({ input, flag, segments: {}, lists }).isEval).toBe(
+				true,
+			);
+		});
+
+		test("gates rollout steps through a segment", () => {
+			const flag = createMockBooleanFlag({
+				rollouts: [
+					{
+						start: "2020-01-01T00:00:00Z",
+						percentage: 100,
+						segment: "beta",
+					},
+				],
+				segments: ["beta"],
+			});
+			const segments = { beta: "inList('beta-customers', user.id)" };
+
+			expect(
+				evaluateFlag({ input: member, flag, segments, lists }).reason,
+			).toEqual({ kind: "ROLLOUT_STEP_MATCHED", stepIndex: 0 });
+			expect(evaluateFlag({ input: other, flag, segments, lists }).isEval).toBe(
+				false,
+			);
+		});
+
+		test("never matches unknown lists or missing members", () => {
+			const flag = createMockBooleanFlag({
+				rules: [
+					"inList('unknown', user.id) || inList('beta-customers', user.missing)",
+				],
+			});
+
+			expect(
+				evaluateFlag({ input: member, flag, segments: {}, lists }).isEval,
+			).toBe(false);
+			expect(evaluateFlag({ input: member, flag, segments: {} }).isEval).toBe(
+				false,
+			);
+		});
+
+		test("finds the lists an expression references", () => {
+			expect(
+				findListReferences(
+					"inList('beta', user.id) || inList(\"vip\", user.id)",
+				),
+			).toEqual({ lists: ["beta", "vip"], isDynamic: false });
+			expect(findListReferences("inList(user.list, user.id)")).toEqual({
+				lists: [],
+				isDynamic: true,
+			});
 		});
 	});
 
@@ -272,11 +565,63 @@ describe("evaluateFlag", () => {
 
 			const result = evaluateFlag({ input, flag, segments: {} });
 
-			expect(result).toEqual({ type: "payload", result: complexPayload, isEval: true });
+			expect(result).toEqual({ type: "payload", result: complexPayload, isEval: true, reason: { kind: "FALLTHROUGH" } });
+		});
+
+		test("serves the default payload when the flag is off", () => {
+			const flag = createMockPayloadFlag(
+				{ limit: 100 },
+				{ defaultPayload: { limit: 10 }, rollout: 0 },
+			);
+			const input = createMockInput();
+
+			expect(evaluateFlag({ input, flag, segments: {} })).toEqual({
+				type: "payload",
+				result: { limit: 10 },
+				isEval: false,
+				reason: { kind: "ROLLOUT_EXCLUDED" },
+			});
+			expect(
+				evaluateFlag({
+					input,
+					flag: { ...flag, enabled: false },
+					segments: {},
+				}).result,
+			).toEqual({ limit: 10 });
 		});
 	});
 
 	describe("Variant Flags", () => {
+		test("serves the off variation when the flag is off", () => {
+			const flag = createMockVariantFlag({
+				enabled: false,
+				offVariation: "test",
+			});
+			const input = createMockInput();
+
+			expect(evaluateFlag({ input, flag, segments: {} })).toEqual({
+				type: "variant",
+				result: { variant: "B" },
+				isEval: false,
+				reason: { kind: "DISABLED" },
+				variation: "test",
+			});
+		});
+
+		test("serves the off variation to users out of the rules", () => {
+			const flag = createMockVariantFlag({
+				rules: ["user.premium == true"],
+				offVariation: "test",
+			});
+			const input = createMockInput();
+
+			expect(evaluateFlag({ input, flag, segments: {} })).toMatchObject({
+				isEval: false,
+				reason: { kind: "RULE_MISMATCH" },
+				variation: "test",
+			});
+		});
+
 		test("returns a variant payload when conditions pass", () => {
 			const flag = createMockVariantFlag();
 			const input = createMockInput();
@@ -289,156 +634,973 @@ describe("evaluateFlag", () => {
 				result.result,
 			);
 		});
-	});
 
-	describe("Rollout Steps", () => {
-		test("includes user in multi-step rollout with matching segment", () => {
-			const flag = createMockBooleanFlag({
-				rollout: 0, // main rollout disabled
-				rollouts: [
-					{
-						start: "2024-01-01T00:00:00.000Z",
-						segment: "premiumUsers",
-						percentage: 100,
-					},
+		test("returns the served variation ID", () => {
+			const flag = createMockVariantFlag({
+				variations: [
+					{ id: "control", weight: 0, payload: { variant: "A" } },
+					{ id: "test", weight: 100, payload: { variant: "B" } },
 				],
-				segments: ["premiumUsers"],
-			});
-			const input = createMockInput({
-				user: { id: "user-123", premium: true },
 			});
+			const input = createMockInput();
 
-			const result = evaluateFlag({
-				input,
-				flag,
-				segments: {
-					premiumUsers: "user.premium == true",
-				},
-			});
+			const result = evaluateFlag({ input, flag, segments: {} });
 
-			expect(result).toEqual({ type: "boolean", result: true, isEval: true });
+			expect(result).toEqual({
+				type: "variant",
+				result: { variant: "B" },
+				isEval: true,
+				reason: { kind: "FALLTHROUGH" },
+				variation: "test",
+			});
 		});
 
-		test("evaluates multiple rollout steps and matches on second step", () => {
-			const flag = createMockBooleanFlag({
-				rollout: 0,
-				rollouts: [
-					{
-						start: "2024-01-01T00:00:00.000Z",
-						percentage: 10, // Most users won't match this
-					},
-					{
-						start: "2024-01-02T00:00:00.000Z",
-						percentage: 100, // All users match this
-					},
+		test("serves the off value to unallocated buckets", () => {
+			const flag = createMockVariantFlag({
+				variations: [
+					{ id: "control", weight: 0, payload: { variant: "A" } },
+					{ id: "test", weight: 0, payload: { variant: "B" } },
 				],
+				isPartial: true,
 			});
 			const input = createMockInput();
 
 			const result = evaluateFlag({ input, flag, segments: {} });
 
-			// Matches second rollout step (100%) - deterministic based on user hash
-			expect(result).toEqual({ type: "boolean", result: true, isEval: true });
+			expect(result.isEval).toBe(false);
+			expect(result.reason.kind).toBe("UNALLOCATED");
+			expect(result.variation).toBe("control");
+			expect(
+				evaluateFlag({
+					input,
+					flag: createMockVariantFlag({
+						variations: [
+							{ id: "control", weight: 0, payload: { variant: "A" } },
+							{ id: "test", weight: 0, payload: { variant: "B" } },
+						],
+						isPartial: true,
+						offVariation: "test",
+					}),
+					segments: {},
+				}).variation,
+			).toBe("test");
 		});
 
-		test("returns payload when rollout step matches", () => {
-			const complexPayload = {
-				apiUrl: "https://api.example.com/v2",
-				timeout: 5000,
-			};
-			const flag = createMockPayloadFlag(complexPayload, {
-				rollout: 0, // main rollout disabled
-				rollouts: [
-					{
-						start: "2024-01-01T00:00:00.000Z",
-						segment: "premiumUsers",
-						percentage: 100,
-					},
-				],
-				segments: ["premiumUsers"],
+		test("serves the off value to unallocated buckets of a split", () => {
+			const flag = createMockVariantFlag({
+				fallthrough: { split: [{ variation: "test", weight: 0 }] },
+				isPartial: true,
 			});
-			const input = createMockInput({
-				user: { id: "user-123", premium: true },
+			const input = createMockInput();
+
+			expect(evaluateFlag({ input, flag, segments: {} }).reason).toEqual({
+				kind: "UNALLOCATED",
 			});
+		});
+	});
 
-			const result = evaluateFlag({
-				input,
-				flag,
-				segments: {
-					premiumUsers: "user.premium == true",
-				},
+	describe("Bucketing", () => {
+		test("buckets every member of an organization together", () => {
+			const flag = createMockVariantFlag({ bucketBy: "user.orgId" });
+			const orgFlag = createMockVariantFlag();
+
+			const orgResult = evaluateFlag({
+				input: createMockInput({ id: "acme" }),
+				flag: orgFlag,
+				segments: {},
 			});
 
-			expect(result).toEqual({ type: "payload", result: complexPayload, isEval: true });
+			for (const id of ["user-1", "user-2", "user-3", "user-4"]) {
+				const result = evaluateFlag({
+					input: createMockInput({ id, user: { id, orgId: "acme" } }),
+					flag,
+					segments: {},
+				});
+
+				expect(result.variation).toBe(orgResult.variation);
+			}
 		});
 
-		test("returns null payload when rollout step fails", () => {
-			const complexPayload = {
-				apiUrl: "https://api.example.com/v2",
-				timeout: 5000,
-			};
-			const flag = createMockPayloadFlag(complexPayload, {
-				rollout: 0, // main rollout disabled
-				rollouts: [
-					{
-						start: "2024-01-01T00:00:00.000Z",
-						segment: "premiumUsers",
-						percentage: 100,
-					},
-				],
-				segments: ["premiumUsers"],
-			});
-			const input = createMockInput({
-				user: { id: "user-123", premium: false }, // Not premium
+		test("falls back to the input ID when the attribute is missing", () => {
+			const flag = createMockBooleanFlag({
+				bucketBy: "user.orgId",
+				rollout: 50,
 			});
+			const plainFlag = createMockBooleanFlag({ rollout: 50 });
 
-			const result = evaluateFlag({
-				input,
-				flag,
-				segments: {
-					premiumUsers: "user.premium == true",
-				},
-			});
+			for (const id of ["user-0", "user-28", "user-123", "user-456"]) {
+				const input = createMockInput({ id, user: { id } });
 
-			expect(result).toEqual({ type: "payload", result: null, isEval: false });
+				expect(evaluateFlag({ input, flag, segments: {} })).toEqual(
+					evaluateFlag({ input, flag: plainFlag, segments: {} }),
+				);
+			}
 		});
+	});
 
-		test("returns variant payload when rollout step matches", () => {
-			const flag = createMockVariantFlag({
-				rollout: 0, // main rollout disabled
-				rollouts: [
-					{
-						start: "2024-01-01T00:00:00.000Z",
-						segment: "premiumUsers",
-						percentage: 100,
-					},
-				],
-				segments: ["premiumUsers"],
-			});
-			const input = createMockInput({
-				user: { id: "user-123", premium: true },
-			});
+	describe("Fractional percentages", () => {
+		const ids = Array.from({ length: 20000 }, (_, index) => `user-${index}`);
+		const inRollout = (percentage: number) =>
+			ids.filter((id) =>
+				isUserInRollout({ userId: id, flagKey: "checkout", percentage }),
+			);
 
-			const result = evaluateFlag({
-				input,
-				flag,
-				segments: {
-					premiumUsers: "user.premium == true",
-				},
-			});
+		test("keeps the original percent of every user", () => {
+			for (const id of ids.slice(0, 1000)) {
+				const bucket = userBucketHash({ userId: id, flagKey: "checkout" });
 
-			expect(result.type).toBe("variant");
-			expect([{ variant: "A" }, { variant: "B" }]).toContainEqual(
-				result.result,
+				expect(bucket).toBeGreaterThanOrEqual(1);
+				expect(bucket).toBeLessThanOrEqual(100_000);
+				expect(Math.ceil(bucket / 1000)).toBe(
+					(hashFnv32a(`${id}:checkout`) % 100) + 1,
+				);
+			}
+		});
+
+		test("rolls out to a fraction of a percent", () => {
+			const tenth = inRollout(0.1);
+			const half = inRollout(0.5);
+
+			expect(tenth.length).toBeGreaterThan(0);
+			expect(tenth.length).toBeLessThan(60);
+			expect(half.length).toBeGreaterThan(tenth.length);
+			expect(half.length).toBeLessThan(200);
+			// A growing rollout keeps the users it already serves
+			expect(inRollout(1)).toEqual(expect.arrayContaining(half));
+			expect(half).toEqual(expect.arrayContaining(tenth));
+		});
+
+		test("splits fractional variation weights", () => {
+			const variants = [
+				{ id: "control", weight: 99.9 },
+				{ id: "treatment", weight: 0.1 },
+			];
+			const treated = ids.filter(
+				(id) =>
+					chooseVariant({ userId: id, flagKey: "checkout", variants }) ===
+					"treatment",
 			);
+
+			expect(treated.length).toBeGreaterThan(0);
+			expect(treated.length).toBeLessThan(60);
 		});
+	});
 
-		test("returns default variant when rollout step fails", () => {
-			const flag = createMockVariantFlag({
-				rollout: 0, // main rollout disabled
-				rollouts: [
-					{
-						start: "2024-01-01T00:00:00.000Z",
+	describe("Error isolation", () => {
+		test("returns the default value with an ERROR reason when a rule throws", () => {
+			const flag = createMockPayloadFlag(
+				{ theme: "dark" },
+				{ rules: ["user.nickname|split(',')[0] == 'a'"] },
+			);
+			const input = createMockInput();
+
+			const result = evaluateFlag({ input, flag, segments: {} });
+
+			expect(result).toMatchObject({
+				type: "payload",
+				result: null,
+				isEval: false,
+				reason: { kind: "ERROR" },
+			});
+			expect(result.reason.errorMessage).toBeTruthy();
+		});
+
+		test("keeps evaluating the other flags of a batch", () => {
+			const broken = createMockBooleanFlag({
+				id: "broken",
+				rules: ["user.nickname|lower == 'a'"],
+			});
+			const healthy = createMockBooleanFlag({ id: "healthy" });
+			const input = createMockInput();
+
+			const results = [broken, healthy].map((flag) =>
+				evaluateFlag({ input, flag, segments: {} }),
+			);
+
+			expect(results.map((result) => result.reason.kind)).toEqual([
+				"ERROR",
+				"FALLTHROUGH",
+			]);
+		});
+	});
+
+	describe("Salt", () => {
+		const ids = Array.from({ length: 100 }, (_, index) => `user-${index}`);
+		const rolledOut = (flag: FeatureFlagInputSchema) =>
+			ids.filter(
+				(id) =>
+					evaluateFlag({
+						input: createMockInput({ id }),
+						flag,
+						segments: {},
+					}).isEval,
+			);
+
+		test("keeps the unsalted buckets when no salt is set", () => {
+			expect(userPercentageHash({ userId: "user-123", flagKey: "test-flag" })).toBe(
+				userPercentageHash({
+					userId: "user-123",
+					flagKey: "test-flag",
+					salt: undefined,
+				}),
+			);
+		});
+
+		test("reshuffles the rollout population when the salt changes", () => {
+			const unsalted = rolledOut(createMockBooleanFlag({ rollout: 10 }));
+			const salted = rolledOut(
+				createMockBooleanFlag({ rollout: 10, salt: "reshuffle" }),
+			);
+
+			expect(salted).not.toEqual(unsalted);
+			expect(rolledOut(createMockBooleanFlag({ rollout: 10, salt: "reshuffle" }))).toEqual(
+				salted,
+			);
+		});
+	});
+
+	describe("Holdout", () => {
+		const holdout = { percentage: 50 };
+		const ids = Array.from({ length: 100 }, (_, index) => `user-${index}`);
+
+		test("serves the default value to held out users of experiments", () => {
+			const flag = createMockBooleanFlag({ isExperiment: true });
+
+			for (const id of ids) {
+				const result = evaluateFlag({
+					input: createMockInput({ id }),
+					flag,
+					segments: {},
+					holdout,
+				});
+
+				expect(result.reason.kind).toBe(
+					isUserInHoldout({ userId: id, holdout }) ? "HOLDOUT" : "FALLTHROUGH",
+				);
+			}
+		});
+
+		test("holds out the same users for every experiment", () => {
+			const heldOut = (flag: FeatureFlagInputSchema) =>
+				ids.filter(
+					(id) =>
+						evaluateFlag({
+							input: createMockInput({ id }),
+							flag,
+							segments: {},
+							holdout,
+						}).reason.kind === "HOLDOUT",
+				);
+
+			const first = heldOut(createMockBooleanFlag({ isExperiment: true }));
+
+			expect(first.length).toBeGreaterThan(0);
+			expect(
+				heldOut(createMockVariantFlag({ isExperiment: true })),
+			).toEqual(first);
+		});
+
+		test("does not share its buckets with a flag keyed holdout", () => {
+			const flag = createMockBooleanFlag({ id: "holdout", rollout: 50 });
+			const rolledOut = ids.filter(
+				(id) =>
+					evaluateFlag({ input: createMockInput({ id }), flag, segments: {} })
+						.isEval,
+			);
+
+			expect(rolledOut).not.toEqual(
+				ids.filter((id) => isUserInHoldout({ userId: id, holdout })),
+			);
+		});
+
+		test("ignores the holdout for flags that are not experiments", () => {
+			const flag = createMockBooleanFlag();
+
+			for (const id of ids) {
+				const result = evaluateFlag({
+					input: createMockInput({ id }),
+					flag,
+					segments: {},
+					holdout: { percentage: 100 },
+				});
+
+				expect(result.isEval).toBe(true);
+			}
+		});
+	});
+
+	describe("Layers", () => {
+		const layers = {
+			checkout: {
+				id: "checkout",
+				allocations: [
+					{ flag: "button-color", start: 0, end: 50 },
+					{ flag: "checkout-copy", start: 50, end: 100 },
+				],
+			},
+		};
+
+		test("lets each user into at most one flag of the layer", () => {
+			const buttonColor = createMockBooleanFlag({ id: "button-color" });
+			const checkoutCopy = createMockBooleanFlag({ id: "checkout-copy" });
+
+			for (let index = 0; index < 100; index++) {
+				const input = createMockInput({ id: `user-${index}` });
+				const served = [buttonColor, checkoutCopy].filter(
+					(flag) => evaluateFlag({ input, flag, segments: {}, layers }).isEval,
+				);
+
+				expect(served).toHaveLength(1);
+			}
+		});
+
+		test("returns the default value outside the allocation", () => {
+			const flag = createMockBooleanFlag({ id: "button-color" });
+			const input = createMockInput({ id: "user-1" });
+			const inAllocation = isUserInLayerAllocation({
+				userId: "user-1",
+				layerId: "checkout",
+				allocation: { flag: "button-color", start: 0, end: 50 },
+			});
+
+			const result = evaluateFlag({ input, flag, segments: {}, layers });
+
+			expect(result).toEqual(
+				inAllocation
+					? {
+							type: "boolean",
+							result: true,
+							isEval: true,
+							reason: { kind: "FALLTHROUGH" },
+						}
+					: {
+							type: "boolean",
+							result: false,
+							isEval: false,
+							reason: { kind: "LAYER_EXCLUDED", layer: "checkout" },
+						},
+			);
+		});
+
+		test("allocates the flag's bucketing key", () => {
+			const flag = createMockBooleanFlag({
+				id: "button-color",
+				bucketBy: "user.orgId",
+			});
+			const served = Array.from({ length: 50 }, (_, index) =>
+				evaluateFlag({
+					input: createMockInput({
+						id: `user-${index}`,
+						user: { id: `user-${index}`, orgId: "acme" },
+					}),
+					flag,
+					segments: {},
+					layers,
+				}),
+			).map((result) => result.isEval);
+
+			expect(new Set(served).size).toBe(1);
+			expect(served[0]).toBe(
+				isUserInLayerAllocation({
+					userId: "acme",
+					layerId: "checkout",
+					allocation: { flag: "button-color", start: 0, end: 50 },
+				}),
+			);
+		});
+
+		test("ignores layers the flag is not allocated in", () => {
+			const flag = createMockBooleanFlag();
+			const input = createMockInput();
+
+			const result = evaluateFlag({ input, flag, segments: {}, layers });
+
+			expect(result.reason).toEqual({ kind: "FALLTHROUGH" });
+		});
+	});
+
+	describe("Schedule", () => {
+		// Wednesday 2025-01-15
+		const at = (time: string) => new Date(`2025-01-15T${time}Z`).getTime();
+		const isActive = (
+			flag: FeatureFlagInputSchema,
+			now: number,
+			input = createMockInput(),
+		) => evaluateFlag({ input, flag, segments: {}, now }).isEval;
+
+		const businessHours = createMockBooleanFlag({
+			schedule: [
+				{
+					days: [1, 2, 3, 4, 5],
+					startTime: "09:00",
+					endTime: "17:00",
+					timezone: "America/New_York",
+				},
+			],
+		});
+
+		test("is active inside a window and inactive outside it", () => {
+			const input = createMockInput();
+
+			// 10:00 and 22:30 in New York
+			expect(
+				evaluateFlag({
+					input,
+					flag: businessHours,
+					segments: {},
+					now: at("15:00:00"),
+				}),
+			).toEqual({
+				type: "boolean",
+				result: true,
+				isEval: true,
+				reason: { kind: "FALLTHROUGH" },
+			});
+			expect(
+				evaluateFlag({
+					input,
+					flag: businessHours,
+					segments: {},
+					now: at("03:30:00"),
+				}),
+			).toEqual({
+				type: "boolean",
+				result: false,
+				isEval: false,
+				reason: { kind: "SCHEDULE_MISMATCH" },
+			});
+		});
+
+		test("uses the time zone of the input when the window has none", () => {
+			const flag = createMockBooleanFlag({
+				schedule: [{ startTime: "09:00", endTime: "17:00" }],
+			});
+			const now = at("20:00:00");
+
+			const tokyo = createMockInput({
+				geo: { isEUCountry: false, timezone: "Asia/Tokyo" },
+			});
+			const losAngeles = createMockInput({
+				geo: { isEUCountry: false, timezone: "America/Los_Angeles" },
+			});
+			const unknown = createMockInput({
+				geo: { isEUCountry: false, timezone: "Nowhere/Special" },
+			});
+
+			// 05:00 the next day in Tokyo, 12:00 in Los Angeles, 20:00 in UTC
+			expect(isActive(flag, now, tokyo)).toBe(false);
+			expect(isActive(flag, now, losAngeles)).toBe(true);
+			expect(isActive(flag, now, unknown)).toBe(false);
+		});
+
+		test("keeps overnight windows on the day they start", () => {
+			const flag = createMockBooleanFlag({
+				schedule: [{ days: [2], startTime: "22:00", endTime: "02:00" }],
+			});
+			// Tuesday 23:00 and Wednesday 01:00 are in Tuesday's window
+			expect(isActive(flag, at("01:00:00"))).toBe(true);
+			expect(isActive(flag, new Date("2025-01-14T23:00:00Z").getTime())).toBe(
+				true,
+			);
+			// Wednesday 23:00 is not
+			expect(isActive(flag, at("23:00:00"))).toBe(false);
+		});
+
+		test("limits windows to their absolute start and end", () => {
+			const flag = createMockBooleanFlag({
+				schedule: [
+					{
+						start: "2025-01-15T12:00:00.000Z",
+						end: "2025-01-16T00:00:00.000Z",
+					},
+				],
+			});
+			expect(isActive(flag, at("11:59:59"))).toBe(false);
+			expect(isActive(flag, at("12:00:00"))).toBe(true);
+			expect(isActive(flag, new Date("2025-01-16T00:00:00Z").getTime())).toBe(
+				false,
+			);
+		});
+
+		test("never opens a window ending at its start", () => {
+			const window = { endTime: "00:00" };
+			const flag = createMockBooleanFlag({ schedule: [window] });
+
+			expect(scheduleWindow.safeParse(window).success).toBe(false);
+			for (const time of ["00:00:00", "12:00:00", "23:59:59"]) {
+				expect(isActive(flag, at(time))).toBe(false);
+			}
+		});
+
+		test("is active in any of several windows", () => {
+			const flag = createMockBooleanFlag({
+				schedule: [{ days: [0, 6] }, { days: [3], startTime: "18:00" }],
+			});
+
+			expect(isActive(flag, at("19:00:00"))).toBe(true);
+			expect(isActive(flag, at("12:00:00"))).toBe(false);
+		});
+	});
+
+	describe("Individual Targets", () => {
+		test("serves included users regardless of rules and rollout", () => {
+			const flag = createMockBooleanFlag({
+				rules: ["user.premium == true"],
+				rollout: 0,
+				include: ["user-123"],
+			});
+			const input = createMockInput();
+
+			const result = evaluateFlag({ input, flag, segments: {} });
+
+			expect(result).toEqual({
+				type: "boolean",
+				result: true,
+				isEval: true,
+				reason: { kind: "TARGET_MATCH" },
+			});
+		});
+
+		test("never serves excluded users", () => {
+			const flag = createMockBooleanFlag({
+				include: ["user-456"],
+				exclude: ["user-123"],
+			});
+			const input = createMockInput();
+
+			const result = evaluateFlag({ input, flag, segments: {} });
+
+			expect(result).toEqual({
+				type: "boolean",
+				result: false,
+				isEval: false,
+				reason: { kind: "TARGET_EXCLUDED" },
+			});
+		});
+
+		test("serves the variation that includes the user", () => {
+			const flag = createMockVariantFlag({
+				rollout: 0,
+				variations: [
+					{ id: "control", weight: 100, payload: { variant: "A" } },
+					{
+						id: "test",
+						weight: 0,
+						payload: { variant: "B" },
+						include: ["user-123"],
+					},
+				],
+			});
+			const input = createMockInput();
+
+			const result = evaluateFlag({ input, flag, segments: {} });
+
+			expect(result).toEqual({
+				type: "variant",
+				result: { variant: "B" },
+				isEval: true,
+				reason: { kind: "TARGET_MATCH" },
+				variation: "test",
+			});
+		});
+
+		test("does not serve included users when the flag is disabled", () => {
+			const flag = createMockBooleanFlag({
+				enabled: false,
+				include: ["user-123"],
+			});
+			const input = createMockInput();
+
+			const result = evaluateFlag({ input, flag, segments: {} });
+
+			expect(result.reason).toEqual({ kind: "DISABLED" });
+		});
+	});
+
+	describe("Targeting Rules", () => {
+		test("serves the variation of the first matching rule", () => {
+			const flag = createMockVariantFlag({
+				targeting: [
+					{
+						condition: "user.premium == true",
+						serve: { variation: "test" },
+					},
+					{
+						condition: "geo.country == 'US'",
+						serve: { variation: "control" },
+					},
+				],
+			});
+			const input = createMockInput({
+				user: { id: "user-123", premium: true },
+			});
+
+			const result = evaluateFlag({ input, flag, segments: {} });
+
+			expect(result).toEqual({
+				type: "variant",
+				result: { variant: "B" },
+				isEval: true,
+				reason: { kind: "RULE_MATCH", ruleIndex: 0 },
+				variation: "test",
+			});
+		});
+
+		test("skips rules that do not match", () => {
+			const flag = createMockVariantFlag({
+				targeting: [
+					{
+						condition: "user.premium == true",
+						serve: { variation: "test" },
+					},
+					{
+						condition: "geo.country == 'US'",
+						serve: { variation: "control" },
+					},
+				],
+			});
+			const input = createMockInput();
+
+			const result = evaluateFlag({ input, flag, segments: {} });
+
+			expect(result.reason).toEqual({ kind: "RULE_MATCH", ruleIndex: 1 });
+			expect(result.variation).toBe("control");
+		});
+
+		test("serves a percentage split for a matching rule", () => {
+			const flag = createMockVariantFlag({
+				targeting: [
+					{
+						condition: "true",
+						serve: {
+							split: [
+								{ variation: "control", weight: 0 },
+								{ variation: "test", weight: 100 },
+							],
+						},
+					},
+				],
+			});
+			const input = createMockInput();
+
+			const result = evaluateFlag({ input, flag, segments: {} });
+
+			expect(result.variation).toBe("test");
+		});
+
+		test("serves the fallthrough when no rule matches", () => {
+			const flag = createMockVariantFlag({
+				targeting: [
+					{
+						condition: "user.premium == true",
+						serve: { variation: "test" },
+					},
+				],
+				fallthrough: { variation: "control" },
+			});
+			const input = createMockInput();
+
+			const result = evaluateFlag({ input, flag, segments: {} });
+
+			expect(result).toEqual({
+				type: "variant",
+				result: { variant: "A" },
+				isEval: true,
+				reason: { kind: "FALLTHROUGH" },
+				variation: "control",
+			});
+		});
+
+		test("splits the users of a partial rollout across every variation", () => {
+			const ids = Array.from({ length: 2000 }, (_, index) => `user-${index}`);
+			const split = {
+				split: [
+					{ variation: "control", weight: 50 },
+					{ variation: "test", weight: 50 },
+				],
+			};
+			const flags = [
+				createMockVariantFlag({ rollout: 50 }),
+				createMockVariantFlag({ rollout: 50, fallthrough: split }),
+				createMockVariantFlag({
+					rollout: 50,
+					targeting: [{ condition: "true", serve: split }],
+				}),
+			];
+
+			for (const flag of flags) {
+				const served = ids
+					.map((id) =>
+						evaluateFlag({
+							input: createMockInput({ id }),
+							flag,
+							segments: {},
+						}),
+					)
+					.filter((result) => result.isEval);
+				const treated = served.filter((result) => result.variation === "test");
+
+				expect(treated.length / served.length).toBeCloseTo(0.5, 1);
+			}
+		});
+	});
+
+	describe("Prerequisites", () => {
+		test("returns true when the prerequisite flag is served", () => {
+			const parent = createMockBooleanFlag({ id: "new-checkout" });
+			const flag = createMockBooleanFlag({
+				id: "new-checkout-coupons",
+				prerequisites: [{ flag: "new-checkout" }],
+			});
+			const input = createMockInput();
+
+			const result = evaluateFlag({
+				input,
+				flag,
+				segments: {},
+				flags: { [parent.id]: parent, [flag.id]: flag },
+			});
+
+			expect(result).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "FALLTHROUGH" } });
+		});
+
+		test("returns default when the prerequisite flag is disabled", () => {
+			const parent = createMockBooleanFlag({
+				id: "new-checkout",
+				enabled: false,
+			});
+			const flag = createMockBooleanFlag({
+				id: "new-checkout-coupons",
+				prerequisites: [{ flag: "new-checkout" }],
+			});
+			const input = createMockInput();
+
+			const result = evaluateFlag({
+				input,
+				flag,
+				segments: {},
+				flags: { [parent.id]: parent, [flag.id]: flag },
+			});
+
+			expect(result).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "PREREQUISITE_FAILED", prerequisite: "new-checkout" } });
+		});
+
+		test("returns default when the prerequisite flag is missing", () => {
+			const flag = createMockBooleanFlag({
+				prerequisites: [{ flag: "missing-flag" }],
+			});
+			const input = createMockInput();
+
+			const result = evaluateFlag({ input, flag, segments: {} });
+
+			expect(result).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "PREREQUISITE_FAILED", prerequisite: "missing-flag" } });
+		});
+
+		test("requires the prerequisite variant flag to serve the given variation", () => {
+			const parent = createMockVariantFlag({
+				variations: [
+					{ id: "control", weight: 0, payload: { variant: "A" } },
+					{ id: "test", weight: 100, payload: { variant: "B" } },
+				],
+			});
+			const input = createMockInput();
+
+			const matching = createMockBooleanFlag({
+				prerequisites: [{ flag: parent.id, variation: "test" }],
+			});
+			const mismatching = createMockBooleanFlag({
+				prerequisites: [{ flag: parent.id, variation: "control" }],
+			});
+
+			expect(
+				evaluateFlag({
+					input,
+					flag: matching,
+					segments: {},
+					flags: { [parent.id]: parent },
+				}),
+			).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "FALLTHROUGH" } });
+
+			expect(
+				evaluateFlag({
+					input,
+					flag: mismatching,
+					segments: {},
+					flags: { [parent.id]: parent },
+				}),
+			).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "PREREQUISITE_FAILED", prerequisite: "test-variant-flag" } });
+		});
+
+		test("does not loop forever on cyclic prerequisites", () => {
+			const flagA = createMockBooleanFlag({
+				id: "flag-a",
+				prerequisites: [{ flag: "flag-b" }],
+			});
+			const flagB = createMockBooleanFlag({
+				id: "flag-b",
+				prerequisites: [{ flag: "flag-a" }],
+			});
+			const input = createMockInput();
+
+			const result = evaluateFlag({
+				input,
+				flag: flagA,
+				segments: {},
+				flags: { [flagA.id]: flagA, [flagB.id]: flagB },
+			});
+
+			expect(result).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "PREREQUISITE_FAILED", prerequisite: "flag-b" } });
+		});
+	});
+
+	describe("Rollout Steps", () => {
+		test("includes user in multi-step rollout with matching segment", () => {
+			const flag = createMockBooleanFlag({
+				rollout: 0, // main rollout disabled
+				rollouts: [
+					{
+						start: "2024-01-01T00:00:00.000Z",
+						segment: "premiumUsers",
+						percentage: 100,
+					},
+				],
+				segments: ["premiumUsers"],
+			});
+			const input = createMockInput({
+				user: { id: "user-123", premium: true },
+			});
+
+			const result = evaluateFlag({
+				input,
+				flag,
+				segments: {
+					premiumUsers: "user.premium == true",
+				},
+			});
+
+			expect(result).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "ROLLOUT_STEP_MATCHED", stepIndex: 0 } });
+		});
+
+		test("evaluates multiple rollout steps and matches on second step", () => {
+			const flag = createMockBooleanFlag({
+				rollout: 0,
+				rollouts: [
+					{
+						start: "2024-01-01T00:00:00.000Z",
+						percentage: 10, // Most users won't match this
+					},
+					{
+						start: "2024-01-02T00:00:00.000Z",
+						percentage: 100, // All users match this
+					},
+				],
+			});
+			const input = createMockInput();
+
+			const result = evaluateFlag({ input, flag, segments: {} });
+
+			// Matches second rollout step (100%) - deterministic based on user hash
+			expect(result).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "ROLLOUT_STEP_MATCHED", stepIndex: 1 } });
+		});
+
+		test("returns payload when rollout step matches", () => {
+			const complexPayload = {
+				apiUrl: "https://api.example.com/v2",
+				timeout: 5000,
+			};
+			const flag = createMockPayloadFlag(complexPayload, {
+				rollout: 0, // main rollout disabled
+				rollouts: [
+					{
+						start: "2024-01-01T00:00:00.000Z",
+						segment: "premiumUsers",
+						percentage: 100,
+					},
+				],
+				segments: ["premiumUsers"],
+			});
+			const input = createMockInput({
+				user: { id: "user-123", premium: true },
+			});
+
+			const result = evaluateFlag({
+				input,
+				flag,
+				segments: {
+					premiumUsers: "user.premium == true",
+				},
+			});
+
+			expect(result).toEqual({ type: "payload", result: complexPayload, isEval: true, reason: { kind: "ROLLOUT_STEP_MATCHED", stepIndex: 0 } });
+		});
+
+		test("returns null payload when rollout step fails", () => {
+			const complexPayload = {
+				apiUrl: "https://api.example.com/v2",
+				timeout: 5000,
+			};
+			const flag = createMockPayloadFlag(complexPayload, {
+				rollout: 0, // main rollout disabled
+				rollouts: [
+					{
+						start: "2024-01-01T00:00:00.000Z",
+						segment: "premiumUsers",
+						percentage: 100,
+					},
+				],
+				segments: ["premiumUsers"],
+			});
+			const input = createMockInput({
+				user: { id: "user-123", premium: false }, // Not premium
+			});
+
+			const result = evaluateFlag({
+				input,
+				flag,
+				segments: {
+					premiumUsers: "user.premium == true",
+				},
+			});
+
+			expect(result).toEqual({ type: "payload", result: null, isEval: false, reason: { kind: "ROLLOUT_EXCLUDED" } });
+		});
+
+		test("returns variant payload when rollout step matches", () => {
+			const flag = createMockVariantFlag({
+				rollout: 0, // main rollout disabled
+				rollouts: [
+					{
+						start: "2024-01-01T00:00:00.000Z",
+						segment: "premiumUsers",
+						percentage: 100,
+					},
+				],
+				segments: ["premiumUsers"],
+			});
+			const input = createMockInput({
+				user: { id: "user-123", premium: true },
+			});
+
+			const result = evaluateFlag({
+				input,
+				flag,
+				segments: {
+					premiumUsers: "user.premium == true",
+				},
+			});
+
+			expect(result.type).toBe("variant");
+			expect([{ variant: "A" }, { variant: "B" }]).toContainEqual(
+				result.result,
+			);
+		});
+
+		test("returns default variant when rollout step fails", () => {
+			const flag = createMockVariantFlag({
+				rollout: 0, // main rollout disabled
+				rollouts: [
+					{
+						start: "2024-01-01T00:00:00.000Z",
 						segment: "premiumUsers",
 						percentage: 100,
 					},
@@ -458,7 +1620,294 @@ describe("evaluateFlag", () => {
 			});
 
 			// Should return first variant's payload as default
-			expect(result).toEqual({ type: "variant", result: { variant: "A" }, isEval: false });
+			expect(result).toEqual({ type: "variant", result: { variant: "A" }, isEval: false, reason: { kind: "ROLLOUT_EXCLUDED" }, variation: "control" });
+		});
+
+		test("moves on to the next step once a step has ended", () => {
+			const flag = createMockBooleanFlag({
+				rollout: 0,
+				rollouts: [
+					{
+						start: "2024-11-29T00:00:00.000Z",
+						end: "2024-12-02T00:00:00.000Z",
+						percentage: 100, // Black Friday promotion
+					},
+					{
+						start: "2024-11-29T00:00:00.000Z",
+						segment: "premiumUsers",
+					},
+				],
+				segments: ["premiumUsers"],
+			});
+			const segments = { premiumUsers: "user.premium == true" };
+			const input = createMockInput();
+
+			expect(
+				evaluateFlag({
+					input,
+					flag,
+					segments,
+					now: new Date("2024-12-01T23:59:59.000Z").getTime(),
+				}).reason,
+			).toEqual({ kind: "ROLLOUT_STEP_MATCHED", stepIndex: 0 });
+			expect(
+				evaluateFlag({
+					input,
+					flag,
+					segments,
+					now: new Date("2024-12-02T00:00:00.000Z").getTime(),
+				}).reason,
+			).toEqual({ kind: "ROLLOUT_EXCLUDED" });
+		});
+	});
+
+	describe("Expiry", () => {
+		test("evaluates as disabled from the expiry date", () => {
+			const flag = createMockBooleanFlag({
+				expiresAt: "2025-01-01T00:00:00.000Z",
+			});
+			const input = createMockInput();
+
+			expect(
+				evaluateFlag({
+					input,
+					flag,
+					segments: {},
+					now: new Date("2024-12-31T23:59:59.000Z").getTime(),
+				}),
+			).toEqual({
+				type: "boolean",
+				result: true,
+				isEval: true,
+				reason: { kind: "FALLTHROUGH" },
+			});
+			expect(
+				evaluateFlag({
+					input,
+					flag,
+					segments: {},
+					now: new Date("2025-01-01T00:00:00.000Z").getTime(),
+				}),
+			).toEqual({
+				type: "boolean",
+				result: false,
+				isEval: false,
+				reason: { kind: "EXPIRED" },
+			});
+		});
+
+		test("expires before individual targeting", () => {
+			const flag = createMockVariantFlag({
+				expiresAt: "2025-01-01T00:00:00.000Z",
+				include: ["user-123"],
+			});
+			const input = createMockInput();
+
+			const result = evaluateFlag({
+				input,
+				flag,
+				segments: {},
+				now: new Date("2025-06-01T00:00:00.000Z").getTime(),
+			});
+
+			expect(result).toEqual({
+				type: "variant",
+				result: { variant: "A" },
+				isEval: false,
+				reason: { kind: "EXPIRED" },
+				variation: "control",
+			});
+		});
+	});
+
+	describe("Ramp", () => {
+		const ramp = {
+			start: "2025-01-01T00:00:00.000Z",
+			end: "2025-01-11T00:00:00.000Z",
+			from: 10,
+			to: 60,
+		};
+		const at = (date: string) => new Date(date).getTime();
+		const ids = Array.from({ length: 200 }, (_, index) => `user-${index}`);
+
+		test("interpolates the percentage between the start and the end", () => {
+			const percentageAt = (date: string) =>
+				getRampPercentage({ ramp, now: at(date) });
+
+			expect(percentageAt("2024-12-01T00:00:00.000Z")).toBe(10);
+			expect(percentageAt("2025-01-01T00:00:00.000Z")).toBe(10);
+			expect(percentageAt("2025-01-06T00:00:00.000Z")).toBe(35);
+			expect(percentageAt("2025-01-11T00:00:00.000Z")).toBe(60);
+			expect(percentageAt("2025-02-01T00:00:00.000Z")).toBe(60);
+		});
+
+		test("serves the users under the ramp percentage at the time of the evaluation", () => {
+			const flag = createMockBooleanFlag({ rollout: 0, ramp });
+			const now = at("2025-01-06T00:00:00.000Z");
+
+			for (const id of ids) {
+				const result = evaluateFlag({
+					input: createMockInput({ id }),
+					flag,
+					segments: {},
+					now,
+				});
+
+				expect(result.isEval).toBe(
+					userPercentageHash({ userId: id, flagKey: flag.id }) <= 35,
+				);
+			}
+		});
+
+		test("keeps served users as the ramp grows", () => {
+			const flag = createMockBooleanFlag({ ramp });
+			const served = (date: string) =>
+				ids.filter(
+					(id) =>
+						evaluateFlag({
+							input: createMockInput({ id }),
+							flag,
+							segments: {},
+							now: at(date),
+						}).isEval,
+				);
+
+			const early = served("2025-01-02T00:00:00.000Z");
+			const late = served("2025-01-09T00:00:00.000Z");
+
+			expect(late.length).toBeGreaterThan(early.length);
+			expect(late).toEqual(expect.arrayContaining(early));
+		});
+
+		test("leaves rollout steps in charge when the flag has any", () => {
+			const flag = createMockBooleanFlag({
+				ramp: { ...ramp, from: 0, to: 0 },
+				rollouts: [{ start: "2024-01-01T00:00:00.000Z", percentage: 100 }],
+			});
+
+			const result = evaluateFlag({
+				input: createMockInput(),
+				flag,
+				segments: {},
+				now: at("2025-01-06T00:00:00.000Z"),
+			});
+
+			expect(result.reason).toEqual({
+				kind: "ROLLOUT_STEP_MATCHED",
+				stepIndex: 0,
+			});
+		});
+	});
+
+	describe("Weight schedule", () => {
+		const flag = createMockVariantFlag({
+			variations: [
+				{ id: "control", weight: 90 },
+				{ id: "treatment", weight: 10 },
+			],
+			weightSchedule: [
+				{
+					start: "2025-01-04T00:00:00.000Z",
+					weights: { control: 70, treatment: 30 },
+				},
+				{
+					start: "2025-01-08T00:00:00.000Z",
+					weights: { control: 50, treatment: 50 },
+				},
+			],
+		});
+		const ids = Array.from({ length: 500 }, (_, index) => `user-${index}`);
+		const variationsAt = (date: string) =>
+			ids.map(
+				(id) =>
+					evaluateFlag({
+						input: createMockInput({ id }),
+						flag,
+						segments: {},
+						now: new Date(date).getTime(),
+					}).variation,
+			);
+		const share = (variations: string[], id: string) =>
+			variations.filter((variation) => variation === id).length / ids.length;
+
+		test("uses the variation weights until the first weight set starts", () => {
+			const before = variationsAt("2025-01-01T00:00:00.000Z");
+
+			expect(before).toEqual(
+				ids.map((id) =>
+					chooseVariant({
+						userId: id,
+						flagKey: `${flag.id}/variations`,
+						variants: [
+							{ id: "control", weight: 90 },
+							{ id: "treatment", weight: 10 },
+						],
+					}),
+				),
+			);
+		});
+
+		test("picks the weight set active at the time of the evaluation", () => {
+			const week1 = variationsAt("2025-01-05T00:00:00.000Z");
+			const week2 = variationsAt("2025-01-09T00:00:00.000Z");
+
+			expect(share(week1, "treatment")).toBeCloseTo(0.3, 1);
+			expect(share(week2, "treatment")).toBeCloseTo(0.5, 1);
+		});
+
+		test("only moves the users the new weights require", () => {
+			const before = variationsAt("2025-01-01T00:00:00.000Z");
+			const week1 = variationsAt("2025-01-05T00:00:00.000Z");
+			const week2 = variationsAt("2025-01-09T00:00:00.000Z");
+
+			// Treatment only grows, so its users are never moved back to control
+			for (const [index, variation] of before.entries()) {
+				if (variation === "treatment") {
+					expect(week1[index]).toBe("treatment");
+				}
+				if (week1[index] === "treatment") {
+					expect(week2[index]).toBe("treatment");
+				}
+			}
+		});
+	});
+
+	describe("assignBuckets", () => {
+		test("matches the cumulative weights without a previous assignment", () => {
+			const buckets = assignBuckets({
+				variants: [
+					{ id: "a", weight: 20 },
+					{ id: "b", weight: 30 },
+				],
+			});
+
+			expect(buckets.slice(0, 20).every((id) => id === "a")).toBe(true);
+			expect(buckets.slice(20, 50).every((id) => id === "b")).toBe(true);
+			expect(buckets.slice(50).every((id) => id === null)).toBe(true);
+		});
+
+		test("reassigns as few buckets as the new weights require", () => {
+			const previous = assignBuckets({
+				variants: [
+					{ id: "a", weight: 34 },
+					{ id: "b", weight: 33 },
+					{ id: "c", weight: 33 },
+				],
+			});
+
+			const next = assignBuckets({
+				variants: [
+					{ id: "a", weight: 20 },
+					{ id: "b", weight: 40 },
+					{ id: "c", weight: 40 },
+				],
+				previous,
+			});
+			const moved = next.filter((id, index) => id !== previous[index]);
+
+			expect(moved).toHaveLength(14);
+			expect(next.filter((id) => id === "b")).toHaveLength(40);
+			expect(next.filter((id) => id === "c")).toHaveLength(40);
 		});
 	});
 });
@@ -47,7 +47,7 @@ describe("Feature Flag Examples", () => {
 
 		const result = evaluateFlag({ input, flag, segments: {} });
 
-		expect(result).toEqual({ type: "boolean", result: true, isEval: true });
+		expect(result).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "FALLTHROUGH" } });
 	});
 
 	test("Example 2: Boolean flag with rules - Target premium users only", () => {
@@ -85,8 +85,8 @@ describe("Feature Flag Examples", () => {
 			segments: {},
 		});
 
-		expect(premiumResult).toEqual({ type: "boolean", result: true, isEval: true });
-		expect(freeResult).toEqual({ type: "boolean", result: false, isEval: false });
+		expect(premiumResult).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "FALLTHROUGH" } });
+		expect(freeResult).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "RULE_MISMATCH" } });
 	});
 
 	test("Example 3: Boolean flag with segments - Geo-targeting US users", () => {
@@ -125,8 +125,8 @@ describe("Feature Flag Examples", () => {
 			segments: { usUsers: 'geo.country == "US"' },
 		});
 
-		expect(usResult).toEqual({ type: "boolean", result: true, isEval: true });
-		expect(euResult).toEqual({ type: "boolean", result: false, isEval: false });
+		expect(usResult).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "FALLTHROUGH" } });
+		expect(euResult).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "SEGMENT_MISMATCH" } });
 	});
 
 	test("Example 4: Boolean flag with percentage rollout - 50% gradual rollout", () => {
@@ -160,11 +160,12 @@ describe("Feature Flag Examples", () => {
 			type: "boolean",
 			result: true,
 			isEval: true,
+			reason: { kind: "FALLTHROUGH" },
 		});
 
 		expect(
 			evaluateFlag({ input: userNotInRollout, flag, segments: {} }),
-		).toEqual({ type: "boolean", result: false, isEval: false });
+		).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "ROLLOUT_EXCLUDED" } });
 	});
 
 	test("Example 5: Combined rules and segments - Enterprise feature", () => {
@@ -222,13 +223,13 @@ describe("Feature Flag Examples", () => {
 		});
 
 		// Qualified user passes all checks
-		expect(qualifiedResult).toEqual({ type: "boolean", result: true, isEval: true });
+		expect(qualifiedResult).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "FALLTHROUGH" } });
 
 		// Wrong plan fails
-		expect(wrongPlanResult).toEqual({ type: "boolean", result: false, isEval: false });
+		expect(wrongPlanResult).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "RULE_MISMATCH" } });
 
 		// Wrong region fails
-		expect(wrongRegionResult).toEqual({ type: "boolean", result: false, isEval: false });
+		expect(wrongRegionResult).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "SEGMENT_MISMATCH" } });
 	});
 
 	test("Example 6: Payload flag - Feature configuration object", () => {
@@ -264,6 +265,7 @@ describe("Feature Flag Examples", () => {
 				features: ["compression", "caching"],
 			},
 			isEval: true,
+			reason: { kind: "FALLTHROUGH" },
 		});
 	});
 
@@ -403,7 +405,7 @@ describe("Feature Flag Examples", () => {
 				segments: {},
 				now: new Date("2024-12-15T00:00:00.000Z").getTime(),
 			}),
-		).toEqual({ type: "boolean", result: false, isEval: false });
+		).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "ROLLOUT_EXCLUDED" } });
 
 		// Jan 15, 2025: 10% rollout active - only users in 10% bucket
 		expect(
@@ -413,7 +415,7 @@ describe("Feature Flag Examples", () => {
 				segments: {},
 				now: new Date("2025-01-15T00:00:00.000Z").getTime(),
 			}),
-		).toEqual({ type: "boolean", result: true, isEval: true });
+		).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "ROLLOUT_STEP_MATCHED", stepIndex: 0 } });
 
 		expect(
 			evaluateFlag({
@@ -422,7 +424,7 @@ describe("Feature Flag Examples", () => {
 				segments: {},
 				now: new Date("2025-01-15T00:00:00.000Z").getTime(),
 			}),
-		).toEqual({ type: "boolean", result: false, isEval: false });
+		).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "ROLLOUT_EXCLUDED" } });
 
 		// Feb 15, 2025: 100% rollout active - everyone gets access
 		expect(
@@ -432,7 +434,7 @@ describe("Feature Flag Examples", () => {
 				segments: {},
 				now: new Date("2025-02-15T00:00:00.000Z").getTime(),
 			}),
-		).toEqual({ type: "boolean", result: true, isEval: true });
+		).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "ROLLOUT_STEP_MATCHED", stepIndex: 0 } });
 
 		expect(
 			evaluateFlag({
@@ -441,7 +443,7 @@ describe("Feature Flag Examples", () => {
 				segments: {},
 				now: new Date("2025-02-15T00:00:00.000Z").getTime(),
 			}),
-		).toEqual({ type: "boolean", result: true, isEval: true });
+		).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "ROLLOUT_STEP_MATCHED", stepIndex: 1 } });
 	});
 
 	test("Example 10: Disabled flag - Returns false when disabled", () => {
@@ -466,7 +468,7 @@ describe("Feature Flag Examples", () => {
 		const result = evaluateFlag({ input, flag, segments: {} });
 
 		// Disabled flags always return false
-		expect(result).toEqual({ type: "boolean", result: false, isEval: false });
+		expect(result).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "DISABLED" } });
 	});
 
 	test("Example 11: Custom userKey - Using email instead of user.id", () => {
@@ -498,7 +500,7 @@ describe("Feature Flag Examples", () => {
 			segments: {},
 		});
 
-		expect(result).toEqual({ type: "boolean", result: true, isEval: true });
+		expect(result).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "FALLTHROUGH" } });
 	});
 
 	test("Example 12: Boolean flag with users - Target internal team members", () => {
@@ -542,8 +544,8 @@ describe("Feature Flag Examples", () => {
 			},
 		});
 
-		expect(companyResult).toEqual({ type: "boolean", result: true, isEval: true });
-		expect(customerResult).toEqual({ type: "boolean", result: false, isEval: false });
+		expect(companyResult).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "FALLTHROUGH" } });
+		expect(customerResult).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "SEGMENT_MISMATCH" } });
 	});
 
 	test("Example 13: Boolean flag with users - Target premium members whose subscription expires in 30 days with dates", () => {
@@ -577,7 +579,7 @@ describe("Feature Flag Examples", () => {
 			now: new Date("2025-10-15T00:00:00.000Z").getTime(),
 		});
 
-		expect(companyResult).toEqual({ type: "boolean", result: true, isEval: true });
+		expect(companyResult).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "FALLTHROUGH" } });
 	});
 
 	test("Example 14: Time-gated progressive rollout - Scheduled feature release", () => {
@@ -649,7 +651,7 @@ describe("Feature Flag Examples", () => {
 				segments,
 				now: new Date("2024-12-15T00:00:00.000Z").getTime(),
 			}),
-		).toEqual({ type: "boolean", result: false, isEval: false });
+		).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "RULE_MISMATCH" } });
 
 		// Jan 15, 2025: Phase 1 - Only internal team gets access
 		expect(
@@ -659,7 +661,7 @@ describe("Feature Flag Examples", () => {
 				segments,
 				now: new Date("2025-01-15T00:00:00.000Z").getTime(),
 			}),
-		).toEqual({ type: "boolean", result: true, isEval: true });
+		).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "ROLLOUT_STEP_MATCHED", stepIndex: 0 } });
 
 		expect(
 			evaluateFlag({
@@ -668,7 +670,7 @@ describe("Feature Flag Examples", () => {
 				segments,
 				now: new Date("2025-01-15T00:00:00.000Z").getTime(),
 			}),
-		).toEqual({ type: "boolean", result: false, isEval: false });
+		).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "ROLLOUT_EXCLUDED" } });
 
 		expect(
 			evaluateFlag({
@@ -677,7 +679,7 @@ describe("Feature Flag Examples", () => {
 				segments,
 				now: new Date("2025-01-15T00:00:00.000Z").getTime(),
 			}),
-		).toEqual({ type: "boolean", result: false, isEval: false });
+		).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "ROLLOUT_EXCLUDED" } });
 
 		// Feb 15, 2025: Phase 2 - Internal team + Premium users get access
 		expect(
@@ -687,7 +689,7 @@ describe("Feature Flag Examples", () => {
 				segments,
 				now: new Date("2025-02-15T00:00:00.000Z").getTime(),
 			}),
-		).toEqual({ type: "boolean", result: true, isEval: true });
+		).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "ROLLOUT_STEP_MATCHED", stepIndex: 0 } });
 
 		expect(
 			evaluateFlag({
@@ -696,7 +698,7 @@ describe("Feature Flag Examples", () => {
 				segments,
 				now: new Date("2025-02-15T00:00:00.000Z").getTime(),
 			}),
-		).toEqual({ type: "boolean", result: true, isEval: true });
+		).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "ROLLOUT_STEP_MATCHED", stepIndex: 1 } });
 
 		expect(
 			evaluateFlag({
@@ -705,7 +707,7 @@ describe("Feature Flag Examples", () => {
 				segments,
 				now: new Date("2025-02-15T00:00:00.000Z").getTime(),
 			}),
-		).toEqual({ type: "boolean", result: false, isEval: false });
+		).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "ROLLOUT_EXCLUDED" } });
 
 		// Mar 15, 2025: Phase 3 - All users get access
 		expect(
@@ -715,7 +717,7 @@ describe("Feature Flag Examples", () => {
 				segments,
 				now: new Date("2025-03-15T00:00:00.000Z").getTime(),
 			}),
-		).toEqual({ type: "boolean", result: true, isEval: true });
+		).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "ROLLOUT_STEP_MATCHED", stepIndex: 0 } });
 
 		expect(
 			evaluateFlag({
@@ -724,7 +726,7 @@ describe("Feature Flag Examples", () => {
 				segments,
 				now: new Date("2025-03-15T00:00:00.000Z").getTime(),
 			}),
-		).toEqual({ type: "boolean", result: true, isEval: true });
+		).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "ROLLOUT_STEP_MATCHED", stepIndex: 1 } });
 
 		expect(
 			evaluateFlag({
@@ -733,6 +735,35 @@ describe("Feature Flag Examples", () => {
 				segments,
 				now: new Date("2025-03-15T00:00:00.000Z").getTime(),
 			}),
-		).toEqual({ type: "boolean", result: true, isEval: true });
+		).toEqual({ type: "boolean", result: true, isEval: true, reason: { kind: "ROLLOUT_STEP_MATCHED", stepIndex: 2 } });
+	});
+
+	test("Example 15: Network targeting - Office network and internal testers", () => {
+		const flag = {
+			id: "internal-tools",
+			label: "Internal Tools",
+			description: "Only available from the office network or the VPN",
+			enabled: true,
+			type: "boolean" as const,
+			rules: [],
+			segments: ["office-network"],
+			rollout: 100,
+			rollouts: [],
+			isTrackable: false,
+		};
+
+		const segments = {
+			"office-network": "inCidr(ip, ['203.0.113.0/24', '10.8.0.0/16', '2001:db8:ac3e::/48'])",
+		};
+
+		const office = createInput({ ip: "203.0.113.42" });
+		const vpn = createInput({ ip: "2001:db8:ac3e:12::7" });
+		const home = createInput({ ip: "198.51.100.7" });
+		const unknown = createInput({ ip: undefined });
+
+		expect(evaluateFlag({ input: office, flag, segments }).result).toBe(true);
+		expect(evaluateFlag({ input: vpn, flag, segments }).result).toBe(true);
+		expect(evaluateFlag({ input: home, flag, segments })).toEqual({ type: "boolean", result: false, isEval: false, reason: { kind: "SEGMENT_MISMATCH" } });
+		expect(evaluateFlag({ input: unknown, flag, segments }).result).toBe(false);
 	});
 });
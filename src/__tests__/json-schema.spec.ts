@@ -0,0 +1,121 @@
+import { describe, expect, test } from "vitest";
+import { findJsonSchemaError, validateJsonSchema } from "../json-schema";
+
+const configSchema = {
+	type: "object",
+	properties: {
+		timeout: { type: "integer", minimum: 0 },
+		mode: { enum: ["fast", "safe"] },
+		hosts: { type: "array", items: { type: "string" }, minItems: 1 },
+	},
+	required: ["timeout"],
+	additionalProperties: false,
+};
+
+describe("JSON Schema", () => {
+	describe("validateJsonSchema", () => {
+		test("accepts matching values", () => {
+			expect(
+				validateJsonSchema(
+					{ timeout: 5000, mode: "safe", hosts: ["a.example.com"] },
+					configSchema,
+				),
+			).toEqual([]);
+		});
+
+		test("reports every error with its JSON pointer", () => {
+			expect(
+				validateJsonSchema(
+					{ timeout: -1, mode: "slow", hosts: [1], retries: 3 },
+					configSchema,
+				),
+			).toEqual([
+				{ path: "/timeout", message: "must be >= 0" },
+				{ path: "/mode", message: 'must be one of ["fast","safe"]' },
+				{ path: "/hosts/0", message: "must be string" },
+				{ path: "", message: 'must not have the property "retries"' },
+			]);
+			expect(validateJsonSchema({}, configSchema)).toEqual([
+				{ path: "", message: 'must have the property "timeout"' },
+			]);
+		});
+
+		test("stops at values of the wrong type", () => {
+			expect(validateJsonSchema("5000", configSchema)).toEqual([
+				{ path: "", message: "must be object" },
+			]);
+			expect(validateJsonSchema(1.5, { type: "integer" })).toHaveLength(1);
+			expect(validateJsonSchema(null, { type: ["string", "null"] })).toEqual(
+				[],
+			);
+		});
+
+		test("combines schemas", () => {
+			const schema = {
+				oneOf: [
+					{ type: "string", pattern: "^#[0-9a-f]{6}$" },
+					{ type: "string", maxLength: 3 },
+				],
+			};
+
+			expect(validateJsonSchema("#00ff00", schema)).toEqual([]);
+			expect(validateJsonSchema("red", schema)).toEqual([]);
+			expect(validateJsonSchema("green", schema)).toHaveLength(1);
+			expect(validateJsonSchema(1, { not: { type: "number" } })).toHaveLength(
+				1,
+			);
+			expect(
+				validateJsonSchema(4, { anyOf: [{ maximum: 1 }, { multipleOf: 2 }] }),
+			).toEqual([]);
+		});
+
+		test("ignores inherited properties", () => {
+			const value = JSON.parse('{"timeout": 5000}');
+
+			expect(
+				validateJsonSchema(value, { required: ["timeout", "toString"] }),
+			).toEqual([{ path: "", message: 'must have the property "toString"' }]);
+			expect(
+				validateJsonSchema(JSON.parse('{"constructor": 1}'), configSchema),
+			).toContainEqual({
+				path: "",
+				message: 'must not have the property "constructor"',
+			});
+		});
+	});
+
+	describe("findJsonSchemaError", () => {
+		test("accepts supported schemas", () => {
+			expect(findJsonSchemaError(configSchema)).toBeNull();
+			expect(findJsonSchemaError(true)).toBeNull();
+		});
+
+		test("finds invalid nested schemas", () => {
+			expect(findJsonSchemaError({ type: "text" })).toContain("/type");
+			expect(
+				findJsonSchemaError({
+					properties: { code: { type: "string", pattern: "[" } },
+				}),
+			).toBe("/properties/code/pattern must be a valid regular expression");
+			expect(findJsonSchemaError({ anyOf: [] })).toContain("/anyOf");
+			expect(findJsonSchemaError({ minimum: "0" })).toContain("/minimum");
+		});
+
+		test("rejects unsupported keywords", () => {
+			expect(findJsonSchemaError({ $ref: "#/$defs/host" })).toBe(
+				"/$ref is not supported",
+			);
+			expect(
+				findJsonSchemaError({
+					properties: { email: { type: "string", format: "email" } },
+				}),
+			).toBe("/properties/email/format is not supported");
+			expect(findJsonSchemaError({ requierd: ["timeout"] })).toBe(
+				"/requierd is not supported",
+			);
+			expect(
+				findJsonSchemaError({ title: "Config", description: "", default: {} }),
+			).toBeNull();
+		});
+	});
+});
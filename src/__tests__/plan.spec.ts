@@ -0,0 +1,152 @@
+import jexl from "jexl";
+import { describe, expect, test, vi } from "vitest";
+import {
+	compileEvaluationPlan,
+	type EvaluationPlan,
+	evaluateFlag,
+	getEvaluationPlan,
+} from "../engine";
+import type {
+	AppData,
+	FeatureFlagInputSchema,
+	FlagEvaluationInput,
+} from "../schema";
+
+function createInput(id: string): FlagEvaluationInput {
+	return {
+		id,
+		user: { id, email: `${id}@example.com`, tier: "premium", age: 30 },
+		request: {
+			headers: { "user-agent": "Mozilla/5.0" },
+		},
+		page: {
+			url: "https://example.com",
+		},
+		geo: { country: "US", isEUCountry: false },
+	};
+}
+
+/**
+ * An app with hundreds of flags, each with a few rules and a segment
+ */
+function createLargeApp(flagCount: number): AppData {
+	const segments: Record<string, string> = {
+		"team-users": "'@example.com' in user.email",
+		adults: "user.age >= 18",
+		"us-users": "geo.country == 'US' && geo.isEUCountry == false",
+	};
+	const segmentKeys = Object.keys(segments);
+	const flags: Record<string, FeatureFlagInputSchema> = {};
+
+	for (let index = 0; index < flagCount; index++) {
+		const id = `flag-${index}`;
+		flags[id] = {
+			id,
+			enabled: true,
+			type: "boolean",
+			rules: [
+				`user.tier == 'premium' && user.age > ${index % 20}`,
+				`user.email|lower|split('@')[1] == 'example.com'`,
+			],
+			segments: [segmentKeys[index % segmentKeys.length]],
+			rollout: 100,
+			rollouts: [],
+			isTrackable: false,
+		};
+	}
+
+	return { flags, segments };
+}
+
+const evaluateAll = (
+	data: AppData,
+	inputs: FlagEvaluationInput[],
+	plan?: EvaluationPlan,
+) =>
+	inputs.map((input) =>
+		Object.values(data.flags).map(
+			(flag) =>
+				evaluateFlag({
+					input,
+					flag,
+					segments: data.segments,
+					flags: data.flags,
+					plan,
+				}).result,
+		),
+	);
+
+describe("Evaluation plan", () => {
+	test("compiles every rule and segment once", () => {
+		const data = createLargeApp(300);
+
+		const plan = compileEvaluationPlan(data);
+
+		// 20 distinct first rules, 1 shared second rule and 3 segments
+		expect(plan.expressions.size).toBe(24);
+	});
+
+	test("records the lists read by rules and segments", () => {
+		const data = createLargeApp(2);
+		data.segments.beta = "inList('beta-customers', user.id)";
+		data.flags["flag-0"]?.rules.push("inList('staff', user.id)");
+
+		expect(compileEvaluationPlan(data).lists.sort()).toEqual([
+			"beta-customers",
+			"staff",
+		]);
+		expect(compileEvaluationPlan(createLargeApp(2)).lists).toEqual([]);
+	});
+
+	test("skips invalid expressions", () => {
+		const data = createLargeApp(1);
+		data.segments.broken = "user.tier ==";
+
+		const plan = compileEvaluationPlan(data);
+
+		expect(plan.expressions.has("user.tier ==")).toBe(false);
+	});
+
+	test("recompiles only when the data version changes", () => {
+		const data = createLargeApp(10);
+
+		const first = getEvaluationPlan({ key: "v1:app:env", version: "1", data });
+		const cached = getEvaluationPlan({ key: "v1:app:env", version: "1", data });
+		const next = getEvaluationPlan({ key: "v1:app:env", version: "2", data });
+
+		expect(cached).toBe(first);
+		expect(next).not.toBe(first);
+	});
+
+	test("returns the same results as raw evaluation", () => {
+		const data = createLargeApp(50);
+		const inputs = ["user-1", "user-2"].map(createInput);
+
+		expect(evaluateAll(data, inputs, compileEvaluationPlan(data))).toEqual(
+			evaluateAll(data, inputs),
+		);
+	});
+
+	test("parses each expression once while the data version is unchanged", () => {
+		const data = createLargeApp(300);
+		const inputs = Array.from({ length: 10 }, (_, index) =>
+			createInput(`user-${index}`),
+		);
+		const parse = vi.spyOn(jexl.Jexl.prototype, "createExpression");
+
+		try {
+			const getPlan = () =>
+				getEvaluationPlan({ key: "v1:app:reuse", version: "1", data });
+			const plan = getPlan();
+
+			// Every request of the same version gets the plan compiled by the first one
+			for (const input of inputs) {
+				evaluateAll(data, [input], getPlan());
+			}
+
+			expect(parse).toHaveBeenCalledTimes(plan.expressions.size);
+		} finally {
+			parse.mockRestore();
+		}
+	});
+});
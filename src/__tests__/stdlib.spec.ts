@@ -0,0 +1,161 @@
+import { describe, expect, test } from "vitest";
+import { createEngine } from "../engine";
+import { getRegex, hashFnv32a } from "../stdlib";
+
+// Wednesday 2025-01-15 14:30 UTC
+const NOW = new Date("2025-01-15T14:30:00.000Z").getTime();
+
+const { jexl } = createEngine({ clock: () => NOW });
+
+const run = (expression: string, context: Record<string, unknown> = {}) =>
+	jexl.evalSync(expression, context);
+
+describe("Rule standard library", () => {
+	describe("Strings", () => {
+		test("matches a regular expression", () => {
+			const user = { email: "Jane@Acme.com" };
+
+			expect(run("user.email|matches('^jane@', 'i')", { user })).toBe(true);
+			expect(run("user.email|matches('^jane@')", { user })).toBe(false);
+			expect(run("user.email|matches('[')", { user })).toBe(false);
+			expect(run("user.missing|matches('.*')", { user })).toBe(false);
+		});
+
+		test("keeps a bounded number of compiled patterns", () => {
+			const first = getRegex("^first$");
+
+			expect(getRegex("^first$")).toBe(first);
+
+			for (let index = 0; index < 500; index++) {
+				getRegex(`^pattern-${index}$`);
+			}
+
+			expect(getRegex("^first$")).not.toBe(first);
+		});
+
+		test("fails the rule when a string transform gets something else", () => {
+			expect(() => run("user.missing|lower", { user: {} })).toThrow(
+				"lower expects a string, got undefined",
+			);
+		});
+
+		test("checks prefixes and suffixes", () => {
+			const page = { url: "https://example.com/checkout?step=2" };
+
+			expect(run("page.url|startsWith('https://')", { page })).toBe(true);
+			expect(run("page.url|endsWith('step=2')", { page })).toBe(true);
+			expect(run("page.missing|startsWith('https://')", { page })).toBe(false);
+		});
+	});
+
+	describe("Arrays", () => {
+		const user = { roles: ["admin", "beta"] };
+
+		test("checks if an array contains an item", () => {
+			expect(run("user.roles|contains('beta')", { user })).toBe(true);
+			expect(run("user.roles|contains('owner')", { user })).toBe(false);
+			expect(run("user.missing|contains('beta')", { user })).toBe(false);
+		});
+
+		test("checks if two arrays intersect", () => {
+			expect(run("user.roles|intersects(['owner', 'admin'])", { user })).toBe(
+				true,
+			);
+			expect(run("user.roles|intersects(['owner'])", { user })).toBe(false);
+			expect(run("user.missing|intersects(['admin'])", { user })).toBe(false);
+		});
+	});
+
+	describe("Numbers", () => {
+		test("parses numbers", () => {
+			const user = { seats: "25", plan: "pro" };
+
+			expect(run("user.seats|toNumber > 10", { user })).toBe(true);
+			expect(run("user.plan|toNumber", { user })).toBeNull();
+		});
+	});
+
+	describe("Dates", () => {
+		test("returns the day of the week and hour in a timezone", () => {
+			expect(run("now()|dayOfWeek")).toBe(3);
+			expect(run("now()|hour")).toBe(14);
+			expect(run("now()|hour('America/New_York')")).toBe(9);
+			expect(run("'2025-01-15T23:30:00Z'|dayOfWeek('Asia/Tokyo')")).toBe(4);
+			expect(run("now()|hour('Not/AZone')")).toBeNull();
+		});
+
+		test("counts the days since a date", () => {
+			const user = { createdAt: "2025-01-01T12:00:00.000Z" };
+
+			expect(run("daysSince(user.createdAt)", { user })).toBe(14);
+			expect(run("daysSince(user.missing)", { user })).toBeNull();
+		});
+	});
+
+	describe("Networks", () => {
+		test("matches IPv4 addresses against CIDR ranges", () => {
+			expect(run("inCidr(ip, '10.0.0.0/8')", { ip: "10.1.2.3" })).toBe(true);
+			expect(run("inCidr(ip, '10.0.0.0/8')", { ip: "11.1.2.3" })).toBe(false);
+			expect(run("inCidr(ip, '192.168.1.7')", { ip: "192.168.1.7" })).toBe(
+				true,
+			);
+			expect(run("inCidr(ip, '0.0.0.0/0')", { ip: "8.8.8.8" })).toBe(true);
+			expect(run("ip|inCidr('172.16.0.0/12')", { ip: "172.31.255.255" })).toBe(
+				true,
+			);
+		});
+
+		test("matches IPv6 addresses against CIDR ranges", () => {
+			expect(run("inCidr(ip, '2001:db8::/32')", { ip: "2001:db8:1::1" })).toBe(
+				true,
+			);
+			expect(run("inCidr(ip, '2001:db8::/32')", { ip: "2001:db9::1" })).toBe(
+				false,
+			);
+			expect(run("inCidr(ip, 'fe80::/10')", { ip: "fe80::1%eth0" })).toBe(true);
+			expect(run("inCidr(ip, '::1/128')", { ip: "::1" })).toBe(true);
+		});
+
+		test("reads IPv4-mapped IPv6 addresses as IPv4", () => {
+			expect(run("inCidr(ip, '10.0.0.0/8')", { ip: "::ffff:10.0.0.1" })).toBe(
+				true,
+			);
+			expect(run("inCidr(ip, '10.0.0.0/8')", { ip: "2001:db8::1" })).toBe(
+				false,
+			);
+		});
+
+		test("matches any of several ranges", () => {
+			const ranges = "['10.0.0.0/8', '2001:db8::/32']";
+
+			expect(run(`inCidr(ip, ${ranges})`, { ip: "2001:db8::5" })).toBe(true);
+			expect(run(`inCidr(ip, ${ranges})`, { ip: "192.168.0.1" })).toBe(false);
+		});
+
+		test("never matches invalid addresses or ranges", () => {
+			expect(run("inCidr(ip, '10.0.0.0/8')", {})).toBe(false);
+			expect(run("inCidr(ip, '10.0.0.0/8')", { ip: "10.0.0.256" })).toBe(
+				false,
+			);
+			expect(run("inCidr(ip, '10.0.0.0/33')", { ip: "10.0.0.1" })).toBe(false);
+			expect(run("inCidr(ip, '10.0.0.0/abc')", { ip: "10.0.0.1" })).toBe(
+				false,
+			);
+			expect(run("inCidr(ip, '1::2::3/64')", { ip: "1::3" })).toBe(false);
+		});
+	});
+
+	describe("Hashing", () => {
+		test("returns a stable hash for custom bucketing", () => {
+			const user = { orgId: "acme" };
+
+			expect(run("hash(user.orgId)", { user })).toBe(hashFnv32a("acme"));
+			expect(run("user.orgId|hash('pricing')", { user })).toBe(
+				hashFnv32a("acme:pricing"),
+			);
+			expect(run("hash(user.orgId, 'pricing') % 100 < 100", { user })).toBe(
+				true,
+			);
+		});
+	});
+});
@@ -1,5 +1,8 @@
 import { beforeEach, describe, expect, test, vi } from "vitest";
-import type { FeatureFlagInputSchema } from "../schema";
+import {
+	type FeatureFlagInputSchema,
+	updateableFeatureFlagSchema,
+} from "../schema";
 import { AppKV } from "../storage";
 
 function createMockKV(): KVNamespace {
@@ -17,16 +20,21 @@ function createMockKV(): KVNamespace {
 			}
 			return item.value;
 		}),
-		getWithMetadata: vi.fn(async (key: string) => {
-			const item = store.get(key);
-			if (!item) {
-				return { value: null, metadata: null };
-			}
-			return {
-				value: item.value,
-				metadata: item.metadata,
-			};
-		}),
+		getWithMetadata: vi.fn(
+			async (key: string, options?: string | { type?: string }) => {
+				const item = store.get(key);
+				if (!item) {
+					return { value: null, metadata: null };
+				}
+
+				const type = typeof options === "string" ? options : options?.type;
+
+				return {
+					value: type === "json" ? JSON.parse(item.value) : item.value,
+					metadata: item.metadata,
+				};
+			},
+		),
 		put: vi.fn(
 			async (key: string, value: string, options?: { metadata?: unknown }) => {
 				store.set(key, {
@@ -42,76 +50,1245 @@ function createMockKV(): KVNamespace {
 	} as unknown as KVNamespace;
 }
 
-function createMockBooleanFlag(
-	overrides?: Partial<Extract<FeatureFlagInputSchema, { type: "boolean" }>>,
-): FeatureFlagInputSchema {
-	return {
-		id: "test-flag",
-		label: "Test Flag",
-		description: "A test feature flag",
-		enabled: true,
-		type: "boolean",
-		rules: [],
-		segments: [],
-		rollout: 100,
-		rollouts: [],
-		isTrackable: false,
-		...overrides,
-	};
-}
+function createMockBooleanFlag(
+	overrides?: Partial<Extract<FeatureFlagInputSchema, { type: "boolean" }>>,
+): FeatureFlagInputSchema {
+	return {
+		id: "test-flag",
+		label: "Test Flag",
+		description: "A test feature flag",
+		enabled: true,
+		type: "boolean",
+		rules: [],
+		segments: [],
+		rollout: 100,
+		rollouts: [],
+		isTrackable: false,
+		...overrides,
+	};
+}
+
+describe("AppKV", () => {
+	let mockKV: KVNamespace;
+	let appKV: AppKV;
+
+	beforeEach(() => {
+		mockKV = createMockKV();
+		appKV = new AppKV({
+			kv: mockKV,
+			app: "test-app",
+			env: "test-env",
+		});
+	});
+
+	describe("Segment validation", () => {
+		test("rejects flag with non-existent segment", async () => {
+			const flag = createMockBooleanFlag({
+				segments: ["nonExistentSegment"],
+			});
+
+			const [data, error] = await appKV.putFlag({ flag });
+
+			expect(error).toBeTruthy();
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+		});
+
+		test("allows flag with existing segment", async () => {
+			await appKV.putSegment({ id: "beta-users", rule: "user.beta == true" });
+
+			const flag = createMockBooleanFlag({
+				segments: ["beta-users"],
+			});
+
+			const [data, error] = await appKV.putFlag({ flag });
+
+			expect(error).toBeNull();
+			expect(data?.flags["test-flag"]).toEqual(flag);
+		});
+
+		test("rejects flag update with non-existent segment", async () => {
+			const flag = createMockBooleanFlag();
+			await appKV.putFlag({ flag });
+
+			const [data, error] = await appKV.updateFlag({
+				id: "test-flag",
+				update: { segments: ["nonExistentSegment"] },
+			});
+
+			expect(error).toBeTruthy();
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+		});
+	});
+
+	describe("Prerequisite validation", () => {
+		test("rejects flag with non-existent prerequisite", async () => {
+			const flag = createMockBooleanFlag({
+				prerequisites: [{ flag: "missing-flag" }],
+			});
+
+			const [data, error] = await appKV.putFlag({ flag });
+
+			expect(error).toBeTruthy();
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+		});
+
+		test("allows flag with existing prerequisite", async () => {
+			await appKV.putFlag({
+				flag: createMockBooleanFlag({ id: "new-checkout" }),
+			});
+
+			const flag = createMockBooleanFlag({
+				id: "new-checkout-coupons",
+				prerequisites: [{ flag: "new-checkout" }],
+			});
+
+			const [data, error] = await appKV.putFlag({ flag });
+
+			expect(error).toBeNull();
+			expect(data?.flags["new-checkout-coupons"]).toEqual(flag);
+		});
+
+		test("rejects prerequisite cycles", async () => {
+			await appKV.putFlag({ flag: createMockBooleanFlag({ id: "flag-a" }) });
+			await appKV.putFlag({
+				flag: createMockBooleanFlag({
+					id: "flag-b",
+					prerequisites: [{ flag: "flag-a" }],
+				}),
+			});
+
+			const [data, error] = await appKV.updateFlag({
+				id: "flag-a",
+				update: { prerequisites: [{ flag: "flag-b" }] },
+			});
+
+			expect(error).toBeTruthy();
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+		});
+
+		test("rejects a flag that requires itself", async () => {
+			const flag = createMockBooleanFlag({
+				prerequisites: [{ flag: "test-flag" }],
+			});
+			await appKV.putFlag({ flag: createMockBooleanFlag() });
+
+			const [, error] = await appKV.putFlag({ flag });
+
+			expect(error?.code).toBe("INVALID_BODY");
+		});
+
+		test("refuses to delete a flag other flags depend on", async () => {
+			await appKV.putFlag({
+				flag: createMockBooleanFlag({ id: "new-checkout" }),
+			});
+			await appKV.putFlag({
+				flag: createMockBooleanFlag({
+					id: "new-checkout-coupons",
+					prerequisites: [{ flag: "new-checkout" }],
+				}),
+			});
+
+			const [data, error] = await appKV.deleteFlag({ id: "new-checkout" });
+
+			expect(error).toBeTruthy();
+			expect(error?.code).toBe("CONFLICT");
+			expect(data).toBeNull();
+		});
+
+		describe("required variations", () => {
+			const checkoutTest: FeatureFlagInputSchema = {
+				id: "checkout-test",
+				enabled: true,
+				type: "variant",
+				variations: [
+					{ id: "control", weight: 50 },
+					{ id: "treatment", weight: 50 },
+				],
+				rules: [],
+				segments: [],
+				rollout: 100,
+				rollouts: [],
+				isTrackable: false,
+			};
+
+			beforeEach(async () => {
+				await appKV.putFlag({ flag: checkoutTest });
+				await appKV.putFlag({
+					flag: createMockBooleanFlag({
+						id: "checkout-coupons",
+						prerequisites: [{ flag: "checkout-test", variation: "treatment" }],
+					}),
+				});
+			});
+
+			test("refuses to remove a variation a dependent requires", async () => {
+				const [data, error] = await appKV.updateFlag({
+					id: "checkout-test",
+					update: {
+						variations: [
+							{ id: "control", weight: 50 },
+							{ id: "other", weight: 50 },
+						],
+					},
+				});
+
+				expect(error?.code).toBe("CONFLICT");
+				expect(error?.details).toEqual({ dependents: ["checkout-coupons"] });
+				expect(data).toBeNull();
+			});
+
+			test("refuses to turn a required flag into a boolean flag", async () => {
+				const [, updateError] = await appKV.updateFlag({
+					id: "checkout-test",
+					update: { type: "boolean" },
+				});
+				const [, putError] = await appKV.putFlag({
+					flag: createMockBooleanFlag({ id: "checkout-test" }),
+				});
+
+				expect(updateError?.code).toBe("CONFLICT");
+				expect(putError?.code).toBe("CONFLICT");
+			});
+
+			test("allows changes that keep the required variation", async () => {
+				const [, error] = await appKV.putFlag({
+					flag: {
+						...checkoutTest,
+						variations: [
+							{ id: "treatment", weight: 20 },
+							{ id: "control", weight: 80 },
+						],
+					},
+				});
+
+				expect(error).toBeNull();
+			});
+		});
+	});
+
+	describe("Targeting validation", () => {
+		const variantFlag: FeatureFlagInputSchema = {
+			id: "checkout-test",
+			enabled: true,
+			type: "variant",
+			variations: [
+				{ id: "control", weight: 50 },
+				{ id: "treatment", weight: 50 },
+			],
+			rules: [],
+			segments: [],
+			rollout: 100,
+			rollouts: [],
+			isTrackable: false,
+		};
+
+		test("allows targeting rules serving existing variations", async () => {
+			const flag: FeatureFlagInputSchema = {
+				...variantFlag,
+				targeting: [
+					{
+						condition: "user.premium == true",
+						serve: { variation: "treatment" },
+					},
+				],
+				fallthrough: {
+					split: [
+						{ variation: "control", weight: 90 },
+						{ variation: "treatment", weight: 10 },
+					],
+				},
+			};
+
+			const [data, error] = await appKV.putFlag({ flag });
+
+			expect(error).toBeNull();
+			expect(data?.flags["checkout-test"]).toEqual(flag);
+		});
+
+		test("rejects targeting rules serving unknown variations", async () => {
+			const flag: FeatureFlagInputSchema = {
+				...variantFlag,
+				targeting: [
+					{
+						condition: "user.premium == true",
+						serve: { variation: "missing" },
+					},
+				],
+			};
+
+			const [data, error] = await appKV.putFlag({ flag });
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+		});
+
+		test("rejects targeting rules on boolean flags", async () => {
+			await appKV.putFlag({ flag: createMockBooleanFlag() });
+
+			const [data, error] = await appKV.updateFlag({
+				id: "test-flag",
+				update: { fallthrough: { variation: "control" } },
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+		});
+	});
+
+	describe("Weight schedule validation", () => {
+		const variantFlag: FeatureFlagInputSchema = {
+			id: "checkout-test",
+			enabled: true,
+			type: "variant",
+			variations: [
+				{ id: "control", weight: 90 },
+				{ id: "treatment", weight: 10 },
+			],
+			rules: [],
+			segments: [],
+			rollout: 100,
+			rollouts: [],
+			isTrackable: false,
+		};
+
+		test("allows weight sets of existing variations", async () => {
+			const flag: FeatureFlagInputSchema = {
+				...variantFlag,
+				weightSchedule: [
+					{
+						start: "2025-01-01T00:00:00.000Z",
+						weights: { control: 70, treatment: 30 },
+					},
+					{
+						start: "2025-01-08T00:00:00.000Z",
+						weights: { control: 50, treatment: 50 },
+					},
+				],
+			};
+
+			const [data, error] = await appKV.putFlag({ flag });
+
+			expect(error).toBeNull();
+			expect(data?.flags["checkout-test"]).toEqual(flag);
+		});
+
+		test("rejects weights of unknown variations", async () => {
+			const flag: FeatureFlagInputSchema = {
+				...variantFlag,
+				weightSchedule: [
+					{
+						start: "2025-01-01T00:00:00.000Z",
+						weights: { control: 50, missing: 50 },
+					},
+				],
+			};
+
+			const [data, error] = await appKV.putFlag({ flag });
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+		});
+
+		test("rejects entries out of order", async () => {
+			await appKV.putFlag({ flag: variantFlag });
+
+			const [data, error] = await appKV.updateFlag({
+				id: "checkout-test",
+				update: {
+					weightSchedule: [
+						{
+							start: "2025-01-08T00:00:00.000Z",
+							weights: { control: 50, treatment: 50 },
+						},
+						{
+							start: "2025-01-01T00:00:00.000Z",
+							weights: { control: 70, treatment: 30 },
+						},
+					],
+				},
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+		});
+
+		test("rejects fractional weights", async () => {
+			const [, scheduleError] = await appKV.putFlag({
+				flag: {
+					...variantFlag,
+					weightSchedule: [
+						{
+							start: "2025-01-01T00:00:00.000Z",
+							weights: { control: 99.5, treatment: 0.5 },
+						},
+					],
+				},
+			});
+			const [, variationError] = await appKV.putFlag({
+				flag: {
+					...variantFlag,
+					variations: [
+						{ id: "control", weight: 99.5 },
+						{ id: "treatment", weight: 0.5 },
+					],
+					weightSchedule: [
+						{
+							start: "2025-01-01T00:00:00.000Z",
+							weights: { control: 50, treatment: 50 },
+						},
+					],
+				},
+			});
+
+			expect(scheduleError?.code).toBe("INVALID_BODY");
+			expect(variationError?.code).toBe("INVALID_BODY");
+		});
+	});
+
+	describe("Ramp validation", () => {
+		const ramp = {
+			start: "2025-01-01T00:00:00.000Z",
+			end: "2025-01-15T00:00:00.000Z",
+			from: 0,
+			to: 100,
+		};
+		const rollouts = [{ start: "2025-01-01T00:00:00.000Z", percentage: 10 }];
+
+		test("rejects a ramp next to rollout steps", async () => {
+			await appKV.putFlag({ flag: createMockBooleanFlag({ rollouts }) });
+
+			const [data, error] = await appKV.updateFlag({
+				id: "test-flag",
+				update: { ramp },
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+			expect(
+				updateableFeatureFlagSchema.safeParse({ ramp, rollouts }).success,
+			).toBe(false);
+		});
+
+		test("allows a ramp once the rollout steps are removed", async () => {
+			await appKV.putFlag({ flag: createMockBooleanFlag({ rollouts }) });
+
+			const [data, error] = await appKV.updateFlag({
+				id: "test-flag",
+				update: { ramp, rollouts: [] },
+			});
+
+			expect(error).toBeNull();
+			expect(data?.flags["test-flag"]?.ramp).toEqual(ramp);
+		});
+	});
+
+	describe("Off value validation", () => {
+		const variantFlag: FeatureFlagInputSchema = {
+			id: "checkout-test",
+			enabled: true,
+			type: "variant",
+			variations: [
+				{ id: "control", weight: 50 },
+				{ id: "treatment", weight: 50 },
+			],
+			rules: [],
+			segments: [],
+			rollout: 100,
+			rollouts: [],
+			isTrackable: false,
+		};
+
+		test("allows an off variation of the flag", async () => {
+			const [data, error] = await appKV.putFlag({
+				flag: { ...variantFlag, offVariation: "control" },
+			});
+
+			expect(error).toBeNull();
+			expect(data?.flags["checkout-test"]).toMatchObject({
+				offVariation: "control",
+			});
+		});
+
+		test("rejects an unknown off variation", async () => {
+			const [data, error] = await appKV.putFlag({
+				flag: { ...variantFlag, offVariation: "missing" },
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+		});
+
+		test("rejects removing the off variation", async () => {
+			await appKV.putFlag({
+				flag: { ...variantFlag, offVariation: "treatment" },
+			});
+
+			const [data, error] = await appKV.updateFlag({
+				id: "checkout-test",
+				update: {
+					variations: [
+						{ id: "control", weight: 50 },
+						{ id: "holdback", weight: 50 },
+					],
+				},
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+		});
+
+		test("rejects a default payload on other flag types", async () => {
+			await appKV.putFlag({ flag: createMockBooleanFlag() });
+
+			const [data, error] = await appKV.updateFlag({
+				id: "test-flag",
+				update: { defaultPayload: { limit: 10 } },
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+		});
+	});
+
+	describe("Allocation validation", () => {
+		const variantFlag: FeatureFlagInputSchema = {
+			id: "checkout-test",
+			enabled: true,
+			type: "variant",
+			variations: [
+				{ id: "control", weight: 50 },
+				{ id: "treatment", weight: 50 },
+			],
+			rules: [],
+			segments: [],
+			rollout: 100,
+			rollouts: [],
+			isTrackable: false,
+		};
+
+		test("rejects weights below 100 unless the flag is partial", async () => {
+			await appKV.putFlag({ flag: variantFlag });
+			const update = {
+				variations: [
+					{ id: "control", weight: 10 },
+					{ id: "treatment", weight: 10 },
+				],
+			};
+
+			const [data, error] = await appKV.updateFlag({
+				id: "checkout-test",
+				update,
+			});
+			const [partial, partialError] = await appKV.updateFlag({
+				id: "checkout-test",
+				update: { ...update, isPartial: true },
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(error?.message).toContain("add up to 20");
+			expect(data).toBeNull();
+			expect(partialError).toBeNull();
+			expect(partial?.flags["checkout-test"]).toMatchObject({
+				isPartial: true,
+			});
+		});
+
+		test("toggles an older flag whose weights add up to less than 100", async () => {
+			// Saved before weights were validated
+			const olderFlag = {
+				...variantFlag,
+				variations: [
+					{ id: "control", weight: 30 },
+					{ id: "treatment", weight: 30 },
+				],
+			};
+			await mockKV.put(
+				appKV.cacheKeys.all(),
+				JSON.stringify({ flags: { "checkout-test": olderFlag }, segments: {} }),
+			);
+
+			const [data, error] = await appKV.updateFlag({
+				id: "checkout-test",
+				update: { enabled: false },
+			});
+
+			expect(error).toBeNull();
+			expect(data?.flags["checkout-test"]).toEqual({
+				...olderFlag,
+				enabled: false,
+			});
+		});
+
+		test("rejects weight sets and splits below 100", async () => {
+			const [scheduled, scheduleError] = await appKV.putFlag({
+				flag: {
+					...variantFlag,
+					weightSchedule: [
+						{ start: "2025-01-01T00:00:00Z", weights: { control: 30 } },
+					],
+				},
+			});
+			const [split, splitError] = await appKV.putFlag({
+				flag: {
+					...variantFlag,
+					fallthrough: { split: [{ variation: "control", weight: 90 }] },
+				},
+			});
+
+			expect(scheduleError?.message).toContain("weightSchedule[0]");
+			expect(scheduled).toBeNull();
+			expect(splitError?.message).toContain("fallthrough");
+			expect(split).toBeNull();
+		});
+	});
+
+	describe("Payload schema validation", () => {
+		const payloadSchema = {
+			type: "object",
+			properties: { timeout: { type: "integer", minimum: 0 } },
+			required: ["timeout"],
+		};
+		const payloadFlag: FeatureFlagInputSchema = {
+			id: "api-config",
+			enabled: true,
+			type: "payload",
+			payload: { timeout: 5000 },
+			payloadSchema,
+			rules: [],
+			segments: [],
+			rollout: 100,
+			rollouts: [],
+			isTrackable: false,
+		};
+
+		test("validates payloads against the schema", async () => {
+			const [data, error] = await appKV.putFlag({ flag: payloadFlag });
+			const [invalid, invalidError] = await appKV.putFlag({
+				flag: { ...payloadFlag, defaultPayload: { timeout: "5s" } },
+			});
+
+			expect(error).toBeNull();
+			expect(data?.flags["api-config"]).toMatchObject({ payloadSchema });
+			expect(invalidError?.code).toBe("INVALID_BODY");
+			expect(invalidError?.message).toBe(
+				"Invalid defaultPayload: /timeout must be integer",
+			);
+			expect(invalid).toBeNull();
+		});
+
+		test("validates every variation payload", async () => {
+			const [data, error] = await appKV.putFlag({
+				flag: {
+					id: "checkout-test",
+					enabled: true,
+					type: "variant",
+					variations: [
+						{ id: "control", weight: 50, payload: { timeout: 1000 } },
+						{ id: "treatment", weight: 50, payload: {} },
+					],
+					payloadSchema,
+					rules: [],
+					segments: [],
+					rollout: 100,
+					rollouts: [],
+					isTrackable: false,
+				},
+			});
+
+			expect(error?.details).toMatchObject({
+				field: "variations[1].payload",
+			});
+			expect(data).toBeNull();
+		});
+
+		test("validates updates against the stored schema", async () => {
+			await appKV.putFlag({ flag: payloadFlag });
+
+			const [data, error] = await appKV.updateFlag({
+				id: "api-config",
+				update: { payload: { timeout: -1 } },
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+		});
+
+		test("returns the schema of a flag", async () => {
+			await appKV.putFlag({ flag: payloadFlag });
+			await appKV.putFlag({ flag: createMockBooleanFlag() });
+
+			const [schema] = await appKV.getPayloadSchema({ id: "api-config" });
+			const [, error] = await appKV.getPayloadSchema({ id: "test-flag" });
+
+			expect(schema).toEqual(payloadSchema);
+			expect(error?.code).toBe("NOT_FOUND");
+		});
+	});
+
+	describe("Expression validation", () => {
+		test("rejects a flag with an invalid rule", async () => {
+			const [data, error] = await appKV.putFlag({
+				flag: createMockBooleanFlag({
+					rules: ["user.premium == true", "user.tier =="],
+				}),
+			});
+
+			expect(data).toBeNull();
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(error?.details).toEqual({
+				field: "rules[1]",
+				expression: "user.tier ==",
+				position: 12,
+				message: "Unexpected end of expression: user.tier ==",
+			});
+		});
+
+		test("rejects unknown transforms", async () => {
+			const [, error] = await appKV.putFlag({
+				flag: createMockBooleanFlag({ rules: ["user.email|lowr == 'a'"] }),
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(error?.details).toMatchObject({
+				field: "rules[0]",
+				position: 11,
+			});
+		});
+
+		test("rejects an update with an invalid targeting condition", async () => {
+			await appKV.putFlag({
+				flag: {
+					id: "checkout-test",
+					type: "variant",
+					enabled: true,
+					rules: [],
+					segments: [],
+					rollout: 100,
+					rollouts: [],
+					isTrackable: false,
+					variations: [
+						{ id: "control", label: "Control", weight: 50 },
+						{ id: "treatment", label: "Treatment", weight: 50 },
+					],
+				},
+			});
+
+			const [, error] = await appKV.updateFlag({
+				id: "checkout-test",
+				update: {
+					targeting: [
+						{
+							condition: "user..tier",
+							serve: { variation: "treatment" },
+						},
+					],
+				},
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(error?.details).toMatchObject({
+				field: "targeting[0].condition",
+				position: 5,
+			});
+		});
+
+		test("rejects a segment with an invalid rule", async () => {
+			const [, error] = await appKV.putSegment({
+				id: "broken",
+				rule: "user.tier = 'premium'",
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(error?.details).toMatchObject({ field: "rule", position: 10 });
+		});
+	});
+
+	describe("Layers", () => {
+		beforeEach(async () => {
+			await appKV.putFlag({ flag: createMockBooleanFlag({ id: "flag-a" }) });
+			await appKV.putFlag({ flag: createMockBooleanFlag({ id: "flag-b" }) });
+		});
+
+		test("saves a layer with its allocations", async () => {
+			const [data, error] = await appKV.putLayer({
+				layer: {
+					id: "checkout",
+					allocations: [
+						{ flag: "flag-a", start: 0, end: 50 },
+						{ flag: "flag-b", start: 50, end: 100 },
+					],
+				},
+			});
+
+			expect(error).toBeNull();
+			expect(data?.layers?.checkout?.allocations).toHaveLength(2);
+		});
+
+		test("rejects overlapping allocations", async () => {
+			const [, error] = await appKV.putLayer({
+				layer: {
+					id: "checkout",
+					allocations: [
+						{ flag: "flag-a", start: 0, end: 60 },
+						{ flag: "flag-b", start: 50, end: 100 },
+					],
+				},
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(error?.message).toContain("overlap");
+		});
+
+		test("rejects unknown flags", async () => {
+			const [, error] = await appKV.putLayer({
+				layer: {
+					id: "checkout",
+					allocations: [{ flag: "missing", start: 0, end: 50 }],
+				},
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+		});
+
+		test("rejects flags allocated in another layer", async () => {
+			await appKV.putLayer({
+				layer: {
+					id: "checkout",
+					allocations: [{ flag: "flag-a", start: 0, end: 50 }],
+				},
+			});
+
+			const [, error] = await appKV.putLayer({
+				layer: {
+					id: "pricing",
+					allocations: [{ flag: "flag-a", start: 0, end: 50 }],
+				},
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+		});
+
+		test("replaces a flag's allocation when re-allocating it", async () => {
+			await appKV.putLayer({
+				layer: {
+					id: "checkout",
+					allocations: [{ flag: "flag-a", start: 0, end: 50 }],
+				},
+			});
+
+			const [data, error] = await appKV.allocateLayerFlag({
+				id: "checkout",
+				allocation: { flag: "flag-a", start: 0, end: 25 },
+			});
+
+			expect(error).toBeNull();
+			expect(data?.layers?.checkout?.allocations).toEqual([
+				{ flag: "flag-a", start: 0, end: 25 },
+			]);
+		});
+
+		test("removes the allocation of a deleted flag", async () => {
+			await appKV.putLayer({
+				layer: {
+					id: "checkout",
+					allocations: [
+						{ flag: "flag-a", start: 0, end: 50 },
+						{ flag: "flag-b", start: 50, end: 100 },
+					],
+				},
+			});
+
+			const [data] = await appKV.deleteFlag({ id: "flag-a" });
+
+			expect(data?.layers?.checkout?.allocations).toEqual([
+				{ flag: "flag-b", start: 50, end: 100 },
+			]);
+		});
+	});
+
+	describe("Holdout", () => {
+		test("saves the holdout percentage", async () => {
+			const [data, error] = await appKV.putHoldout({
+				holdout: { percentage: 5 },
+			});
+
+			expect(error).toBeNull();
+			expect(data?.holdout).toEqual({ percentage: 5 });
+		});
+	});
+
+	describe("Randomize flag", () => {
+		test("sets a new salt on every call", async () => {
+			await appKV.putFlag({ flag: createMockBooleanFlag() });
 
-describe("AppKV", () => {
-	let mockKV: KVNamespace;
-	let appKV: AppKV;
+			const [first, error] = await appKV.randomizeFlag({ id: "test-flag" });
+			const firstSalt = first?.flags["test-flag"]?.salt;
+			const [second] = await appKV.randomizeFlag({ id: "test-flag" });
 
-	beforeEach(() => {
-		mockKV = createMockKV();
-		appKV = new AppKV({
-			kv: mockKV,
-			app: "test-app",
-			env: "test-env",
+			expect(error).toBeNull();
+			expect(firstSalt).toBeTruthy();
+			expect(second?.flags["test-flag"]?.salt).not.toBe(firstSalt);
+		});
+
+		test("returns error for a non-existent flag", async () => {
+			const [data, error] = await appKV.randomizeFlag({ id: "missing" });
+
+			expect(data).toBeNull();
+			expect(error?.code).toBe("NOT_FOUND");
 		});
 	});
 
-	describe("Segment validation", () => {
-		test("rejects flag with non-existent segment", async () => {
-			const flag = createMockBooleanFlag({
-				segments: ["nonExistentSegment"],
+	describe("Flag targets", () => {
+		test("adds user IDs to the include list", async () => {
+			await appKV.putFlag({ flag: createMockBooleanFlag() });
+
+			const [data, error] = await appKV.addFlagTargets({
+				id: "test-flag",
+				targets: { list: "include", ids: ["user-1", "user-2"] },
 			});
 
-			const [data, error] = await appKV.putFlag({ flag });
+			expect(error).toBeNull();
+			expect(data?.flags["test-flag"]?.include).toEqual(["user-1", "user-2"]);
+		});
+
+		test("moves user IDs out of the other lists", async () => {
+			await appKV.putFlag({
+				flag: createMockBooleanFlag({ include: ["user-1", "user-2"] }),
+			});
+
+			const [data] = await appKV.addFlagTargets({
+				id: "test-flag",
+				targets: { list: "exclude", ids: ["user-1"] },
+			});
+
+			expect(data?.flags["test-flag"]?.include).toEqual(["user-2"]);
+			expect(data?.flags["test-flag"]?.exclude).toEqual(["user-1"]);
+		});
+
+		test("adds user IDs to a variation include list", async () => {
+			await appKV.putFlag({
+				flag: {
+					id: "checkout-test",
+					enabled: true,
+					type: "variant",
+					variations: [
+						{ id: "control", weight: 50 },
+						{ id: "treatment", weight: 50 },
+					],
+					rules: [],
+					segments: [],
+					rollout: 100,
+					rollouts: [],
+					isTrackable: false,
+				},
+			});
+
+			const [data, error] = await appKV.addFlagTargets({
+				id: "checkout-test",
+				targets: { list: "include", ids: ["user-1"], variation: "treatment" },
+			});
+
+			const flag = data?.flags["checkout-test"];
+			expect(error).toBeNull();
+			expect(flag?.type === "variant" && flag.variations[1]?.include).toEqual([
+				"user-1",
+			]);
+		});
+
+		test("rejects unknown variations", async () => {
+			await appKV.putFlag({ flag: createMockBooleanFlag() });
+
+			const [data, error] = await appKV.addFlagTargets({
+				id: "test-flag",
+				targets: { list: "include", ids: ["user-1"], variation: "treatment" },
+			});
 
-			expect(error).toBeTruthy();
 			expect(error?.code).toBe("INVALID_BODY");
 			expect(data).toBeNull();
 		});
 
-		test("allows flag with existing segment", async () => {
-			await appKV.putSegment({ id: "beta-users", rule: "user.beta == true" });
+		test("removes user IDs from a list", async () => {
+			await appKV.putFlag({
+				flag: createMockBooleanFlag({ exclude: ["user-1", "user-2"] }),
+			});
 
-			const flag = createMockBooleanFlag({
-				segments: ["beta-users"],
+			const [data, error] = await appKV.removeFlagTargets({
+				id: "test-flag",
+				targets: { list: "exclude", ids: ["user-2"] },
 			});
 
-			const [data, error] = await appKV.putFlag({ flag });
+			expect(error).toBeNull();
+			expect(data?.flags["test-flag"]?.exclude).toEqual(["user-1"]);
+		});
+	});
+
+	describe("Segment references", () => {
+		beforeEach(async () => {
+			await appKV.putSegment({ id: "beta", rule: "user.beta == true" });
+			await appKV.putSegment({ id: "eu", rule: "geo.isEUCountry" });
+		});
+
+		test("allows segments referencing existing segments", async () => {
+			const [data, error] = await appKV.putSegment({
+				id: "beta-eu",
+				rule: "segment('beta') && segment('eu')",
+			});
 
 			expect(error).toBeNull();
-			expect(data?.flags["test-flag"]).toEqual(flag);
+			expect(data?.segments["beta-eu"]).toBe(
+				"segment('beta') && segment('eu')",
+			);
 		});
 
-		test("rejects flag update with non-existent segment", async () => {
-			const flag = createMockBooleanFlag();
-			await appKV.putFlag({ flag });
+		test("rejects references to unknown segments", async () => {
+			const [data, error] = await appKV.putSegment({
+				id: "beta-us",
+				rule: "segment('beta') && segment('us')",
+			});
 
-			const [data, error] = await appKV.updateFlag({
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+		});
+
+		test("rejects computed segment keys", async () => {
+			const [data, error] = await appKV.putSegment({
+				id: "dynamic",
+				rule: "segment(user.segment)",
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+		});
+
+		test("rejects reference cycles", async () => {
+			await appKV.putSegment({
+				id: "beta-eu",
+				rule: "segment('beta') && segment('eu')",
+			});
+
+			const [data, error] = await appKV.putSegment({
+				id: "beta",
+				rule: "user.beta == true || segment('beta-eu')",
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(error?.message).toContain("beta -> beta-eu -> beta");
+			expect(data).toBeNull();
+		});
+
+		test("refuses to delete a segment other segments reference", async () => {
+			await appKV.putSegment({
+				id: "beta-eu",
+				rule: "segment('beta') && segment('eu')",
+			});
+
+			const [data, error] = await appKV.deleteSegment({ id: "eu" });
+
+			expect(error?.code).toBe("CONFLICT");
+			expect(error?.details).toEqual({ dependents: ["beta-eu"] });
+			expect(data).toBeNull();
+		});
+
+		test("syncs the segments a flag's segments reference", async () => {
+			await appKV.putSegment({
+				id: "beta-eu",
+				rule: "segment('beta') && segment('eu')",
+			});
+			await appKV.putFlag({
+				flag: createMockBooleanFlag({ segments: ["beta-eu"] }),
+			});
+
+			const [data, error] = await appKV.syncFlag({
 				id: "test-flag",
-				update: { segments: ["nonExistentSegment"] },
+				sourceEnv: "test-env",
+				targetEnv: "other-env",
+				overwrite: false,
 			});
 
-			expect(error).toBeTruthy();
+			expect(error).toBeNull();
+			expect(Object.keys(data?.segments ?? {}).sort()).toEqual([
+				"beta",
+				"beta-eu",
+				"eu",
+			]);
+		});
+
+		test("rejects flag expressions calling unknown segments", async () => {
+			const [data, error] = await appKV.putFlag({
+				flag: createMockBooleanFlag({ rules: ["segment('us')"] }),
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(error?.message).toContain('"us"');
+			expect(data).toBeNull();
+		});
+
+		test("refuses to delete a segment a flag rule calls", async () => {
+			await appKV.putFlag({
+				flag: createMockBooleanFlag({ rules: ["segment('beta')"] }),
+			});
+
+			const [data, error] = await appKV.deleteSegment({ id: "beta" });
+
+			expect(error?.code).toBe("CONFLICT");
+			expect(error?.details).toEqual({ dependents: ["test-flag"] });
+			expect(data).toBeNull();
+		});
+
+		test("syncs the segments a flag rule calls", async () => {
+			await appKV.putSegment({
+				id: "beta-eu",
+				rule: "segment('beta') && segment('eu')",
+			});
+			await appKV.putFlag({
+				flag: createMockBooleanFlag({ rules: ["segment('beta-eu')"] }),
+			});
+
+			const [data, error] = await appKV.syncFlag({
+				id: "test-flag",
+				targetEnv: "target",
+				overwrite: false,
+			});
+
+			expect(error).toBeNull();
+			expect(Object.keys(data?.segments ?? {}).sort()).toEqual([
+				"beta",
+				"beta-eu",
+				"eu",
+			]);
+		});
+	});
+
+	describe("Lists", () => {
+		beforeEach(async () => {
+			await appKV.putList({
+				list: { id: "beta-customers", label: "Beta customers" },
+			});
+		});
+
+		test("stores members outside of the app data", async () => {
+			const [list, error] = await appKV.addListMembers({
+				id: "beta-customers",
+				ids: ["user-1", "user-2", "user-2"],
+			});
+
+			expect(error).toBeNull();
+			expect(list?.size).toBe(2);
+
+			const data = await appKV.getData();
+			expect(JSON.stringify(data)).not.toContain("user-1");
+		});
+
+		test("only rewrites the shards of the changed members", async () => {
+			await appKV.replaceListMembers({
+				id: "beta-customers",
+				ids: Array.from({ length: 100 }, (_, index) => `user-${index}`),
+			});
+			vi.mocked(mockKV.put).mockClear();
+
+			await appKV.addListMembers({ id: "beta-customers", ids: ["user-new"] });
+
+			// One shard and the app data
+			expect(mockKV.put).toHaveBeenCalledTimes(2);
+		});
+
+		test("reads members of the current version", async () => {
+			await appKV.addListMembers({
+				id: "beta-customers",
+				ids: ["user-1", "user-2"],
+			});
+			const [, error] = await appKV.removeListMembers({
+				id: "beta-customers",
+				ids: ["user-1", "user-3"],
+			});
+
+			const data = await appKV.getData();
+			const lists = await appKV.getListMembers({ lists: data.lists });
+
+			expect(error).toBeNull();
+			expect(data.lists?.["beta-customers"]?.size).toBe(1);
+			expect([...lists["beta-customers"]]).toEqual(["user-2"]);
+		});
+
+		test("replaces every member on upload", async () => {
+			await appKV.addListMembers({ id: "beta-customers", ids: ["user-1"] });
+			const [list] = await appKV.replaceListMembers({
+				id: "beta-customers",
+				ids: ["user-2", "user-3"],
+			});
+
+			const data = await appKV.getData();
+			const lists = await appKV.getListMembers({ lists: data.lists });
+
+			expect(list?.size).toBe(2);
+			expect([...lists["beta-customers"]].sort()).toEqual(["user-2", "user-3"]);
+		});
+
+		test("rejects members of unknown lists", async () => {
+			const [list, error] = await appKV.addListMembers({
+				id: "unknown",
+				ids: ["user-1"],
+			});
+
+			expect(error?.code).toBe("NOT_FOUND");
+			expect(list).toBeNull();
+		});
+
+		test("rejects references to unknown lists", async () => {
+			const [data, error] = await appKV.putSegment({
+				id: "vip",
+				rule: "inList('vip-customers', user.id)",
+			});
+
+			expect(error?.code).toBe("INVALID_BODY");
+			expect(data).toBeNull();
+		});
+
+		test("rejects computed list keys", async () => {
+			const flag = createMockBooleanFlag({
+				rules: ["inList(user.list, user.id)"],
+			});
+
+			const [data, error] = await appKV.putFlag({ flag });
+
 			expect(error?.code).toBe("INVALID_BODY");
 			expect(data).toBeNull();
 		});
+
+		test("refuses to delete a list flags or segments reference", async () => {
+			await appKV.putSegment({
+				id: "beta",
+				rule: "inList('beta-customers', user.id)",
+			});
+			await appKV.putFlag({
+				flag: createMockBooleanFlag({
+					rules: ["inList('beta-customers', user.id)"],
+				}),
+			});
+
+			const [data, error] = await appKV.deleteList({ id: "beta-customers" });
+
+			expect(error?.code).toBe("CONFLICT");
+			expect(error?.details).toEqual({
+				flags: ["test-flag"],
+				segments: ["beta"],
+			});
+			expect(data).toBeNull();
+		});
+
+		test("deletes a list and its members", async () => {
+			await appKV.addListMembers({ id: "beta-customers", ids: ["user-1"] });
+
+			const [data, error] = await appKV.deleteList({ id: "beta-customers" });
+
+			expect(error).toBeNull();
+			expect(data?.lists?.["beta-customers"]).toBeUndefined();
+			expect(mockKV.delete).toHaveBeenCalledTimes(16);
+		});
 	});
 
 	describe("deleteSegment", () => {
@@ -170,6 +1347,37 @@ describe("AppKV", () => {
 		});
 	});
 
+	describe("getVersionedData", () => {
+		test("changes the version on every save", async () => {
+			await appKV.putFlag({ flag: createMockBooleanFlag() });
+			const { version } = await appKV.getVersionedData();
+
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			await appKV.putFlag({ flag: createMockBooleanFlag({ rollout: 50 }) });
+
+			expect((await appKV.getVersionedData()).version).not.toBe(version);
+		});
+
+		test("versions entries without metadata by their content", async () => {
+			const write = (flag: FeatureFlagInputSchema) =>
+				mockKV.put(
+					appKV.cacheKeys.all(),
+					JSON.stringify({ flags: { [flag.id]: flag }, segments: {} }),
+				);
+
+			await write(createMockBooleanFlag());
+			const first = await appKV.getVersionedData();
+			await write(createMockBooleanFlag());
+			const same = await appKV.getVersionedData();
+			await write(createMockBooleanFlag({ rules: ["inList('staff', id)"] }));
+			const changed = await appKV.getVersionedData();
+
+			expect(first.version).not.toBe("");
+			expect(same.version).toBe(first.version);
+			expect(changed.version).not.toBe(first.version);
+		});
+	});
+
 	describe("Multi-app/env isolation", () => {
 		test("isolates flags by app and env", async () => {
 			const appKV1 = new AppKV({ kv: mockKV, app: "app1", env: "prod" });
@@ -281,6 +1489,23 @@ describe("AppKV", () => {
 			expect(data?.flags["enabled-feature"]?.enabled).toBe(true);
 		});
 
+		test("copies the holdout", async () => {
+			const sourceAppKV = new AppKV({
+				kv: mockKV,
+				app: "test-app",
+				env: "source",
+			});
+			await sourceAppKV.putHoldout({ holdout: { percentage: 5 } });
+
+			const [data] = await sourceAppKV.syncEnv({
+				sourceEnv: "source",
+				targetEnv: "target",
+				overwrite: false,
+			});
+
+			expect(data?.holdout).toEqual({ percentage: 5 });
+		});
+
 		test("merges with existing target data without removing it", async () => {
 			const sourceAppKV = new AppKV({
 				kv: mockKV,
@@ -307,6 +1532,36 @@ describe("AppKV", () => {
 			expect(data?.flags["source-flag"]).toBeDefined();
 			expect(data?.flags["target-flag"]).toBeDefined();
 		});
+
+		test("copies lists and their members", async () => {
+			const sourceAppKV = new AppKV({
+				kv: mockKV,
+				app: "test-app",
+				env: "source",
+			});
+			const targetAppKV = new AppKV({
+				kv: mockKV,
+				app: "test-app",
+				env: "target",
+			});
+
+			await sourceAppKV.putList({ list: { id: "beta-customers" } });
+			await sourceAppKV.addListMembers({
+				id: "beta-customers",
+				ids: ["user-1"],
+			});
+
+			const [data, error] = await sourceAppKV.syncEnv({
+				sourceEnv: "source",
+				targetEnv: "target",
+				overwrite: false,
+			});
+			const lists = await targetAppKV.getListMembers({ lists: data?.lists });
+
+			expect(error).toBeNull();
+			expect(data?.lists?.["beta-customers"]?.size).toBe(1);
+			expect([...lists["beta-customers"]]).toEqual(["user-1"]);
+		});
 	});
 
 	describe("syncFlag", () => {
@@ -371,6 +1626,49 @@ describe("AppKV", () => {
 			expect(data?.flags["enabled-feature"]?.enabled).toBe(true);
 		});
 
+		test("rejects a flag whose prerequisites are missing from the target", async () => {
+			const sourceAppKV = new AppKV({
+				kv: mockKV,
+				app: "test-app",
+				env: "source",
+			});
+			const sync = () =>
+				sourceAppKV.syncFlag({
+					id: "new-checkout",
+					sourceEnv: "source",
+					targetEnv: "target",
+					overwrite: false,
+				});
+
+			await sourceAppKV.putFlag({
+				flag: createMockBooleanFlag({ id: "payments-v2" }),
+			});
+			await sourceAppKV.putFlag({
+				flag: createMockBooleanFlag({
+					id: "new-checkout",
+					prerequisites: [{ flag: "payments-v2" }],
+				}),
+			});
+
+			const [data, error] = await sync();
+
+			expect(data).toBeNull();
+			expect(error?.code).toBe("CONFLICT");
+			expect(error?.details).toEqual({ missing: ["payments-v2"] });
+
+			await sourceAppKV.syncFlag({
+				id: "payments-v2",
+				sourceEnv: "source",
+				targetEnv: "target",
+				overwrite: false,
+			});
+			const [synced] = await sync();
+
+			expect(synced?.flags["new-checkout"]?.prerequisites).toEqual([
+				{ flag: "payments-v2" },
+			]);
+		});
+
 		test("returns error when syncing non-existent flag", async () => {
 			const sourceAppKV = new AppKV({
 				kv: mockKV,
@@ -1,44 +1,176 @@
 import jexl from "jexl";
+import type Expression from "jexl/Expression";
 import type {
+	AppData,
+	EvaluationReason,
 	FeatureFlagInputSchema,
 	FlagEvaluationInput,
+	FlagPrerequisite,
 	FlagResultSchema,
+	Holdout,
+	Layer,
+	LayerAllocation,
+	Ramp,
+	RolloutStep,
+	ScheduleWindow,
+	TargetingServe,
+	WeightSchedule,
 } from "./schema";
+import {
+	createStdlibFunctions,
+	getZonedParts,
+	hashFnv32a,
+	type JexlFunction,
+	stdlibTransforms,
+} from "./stdlib";
 
-jexl.addTransform("split", (val, char) => val.split(char));
-jexl.addTransform("lower", (val) => val.toLowerCase());
-jexl.addTransform("upper", (val) => val.toUpperCase());
-
-jexl.addFunction("ts", (val) => new Date(val).getTime());
-jexl.addFunction("now", () => Date.now());
+export { hashFnv32a };
 
 /**
- * Stable hash function (FNV-1a 32-bit)
- * Returns unsigned 32-bit integer
+ * Number of buckets per percent, so percentages are applied with a precision of 0.001%
  */
-export function hashFnv32a(str: string): number {
-	let hval = 0x811c9dc5;
-	for (let i = 0; i < str.length; i++) {
-		hval ^= str.charCodeAt(i);
-		hval +=
-			(hval << 1) + (hval << 4) + (hval << 7) + (hval << 8) + (hval << 24);
-	}
-	return hval >>> 0; // convert to unsigned
-}
+export const BUCKETS_PER_PERCENT = 1000;
 
 /**
- * Returns a deterministic bucket between 1–100 for a user + flag
+ * Returns a deterministic bucket between 1–100000 for a user + flag
+ * A salt re-randomizes the buckets, unsalted flags keep their original buckets
  */
-export function userPercentageHash({
+export function userBucketHash({
 	userId,
 	flagKey,
+	salt,
 }: {
 	userId: string;
 	flagKey: string;
+	salt?: string;
 }): number {
-	const input = `${userId}:${flagKey}`;
+	const input = salt ? `${userId}:${flagKey}:${salt}` : `${userId}:${flagKey}`;
 	const hash = hashFnv32a(input);
-	return (hash % 100) + 1; // 1–100 inclusive
+	// The percent comes from the low digits, as it did with 100 buckets,
+	// so whole percentages keep their users. The rest of the hash picks a bucket within it
+	return (
+		(hash % 100) * BUCKETS_PER_PERCENT +
+		(Math.floor(hash / 100) % BUCKETS_PER_PERCENT) +
+		1
+	);
+}
+
+/**
+ * Returns a deterministic percent between 1–100 for a user + flag, the one its bucket falls in
+ */
+export function userPercentageHash(options: {
+	userId: string;
+	flagKey: string;
+	salt?: string;
+}): number {
+	return Math.ceil(userBucketHash(options) / BUCKETS_PER_PERCENT);
+}
+
+/**
+ * Convert a percentage (0–100) into a number of buckets, rounded to the nearest bucket
+ */
+export function percentageToBuckets(percentage: number): number {
+	return Math.round(percentage * BUCKETS_PER_PERCENT);
+}
+
+type WeightedVariant = { id: string; weight: number };
+
+/**
+ * Assign each percent of the buckets to a variant, in order, by weight
+ * Given the assignment of previous weights, only the buckets that have to move are reassigned:
+ * shrinking variants give up their highest buckets and growing variants take the lowest free ones
+ * @param variants - array of {id, weight} objects, weights sum <= 100
+ * @param previous - optional assignment of the previous weights
+ * @returns the variant id of each percent, null for percents no variant covers
+ */
+export function assignBuckets({
+	variants,
+	previous,
+}: {
+	variants: WeightedVariant[];
+	previous?: (string | null)[];
+}): (string | null)[] {
+	const targets = new Map<string, number>();
+	let cumulative = 0;
+	for (const v of variants) {
+		// Same boundaries as the cumulative weights of `chooseVariant`, in whole percents
+		const count = Math.floor(cumulative + v.weight) - Math.floor(cumulative);
+		targets.set(v.id, (targets.get(v.id) ?? 0) + count);
+		cumulative += v.weight;
+	}
+
+	const buckets: (string | null)[] = previous
+		? [...previous]
+		: Array.from({ length: 100 }, () => null);
+	const counts = new Map<string, number>();
+	for (const id of buckets) {
+		if (id !== null) {
+			counts.set(id, (counts.get(id) ?? 0) + 1);
+		}
+	}
+
+	for (let index = buckets.length - 1; index >= 0; index--) {
+		const id = buckets[index];
+		if (id !== null && counts.get(id) > (targets.get(id) ?? 0)) {
+			buckets[index] = null;
+			counts.set(id, counts.get(id) - 1);
+		}
+	}
+
+	for (let index = 0; index < buckets.length; index++) {
+		if (buckets[index] !== null) {
+			continue;
+		}
+		const variant = variants.find(
+			(v) => (counts.get(v.id) ?? 0) < targets.get(v.id),
+		);
+		if (!variant) {
+			break;
+		}
+		buckets[index] = variant.id;
+		counts.set(variant.id, (counts.get(variant.id) ?? 0) + 1);
+	}
+
+	return buckets;
+}
+
+/**
+ * Bucket assignment of the weight sets that have started, applied in order from the variant weights
+ * @param variants - array of {id, weight} objects
+ * @param schedule - weight sets by variant id with their start dates
+ * @param now - timestamp of the evaluation
+ * @returns the variant id of each percent, or null if no weight set has started
+ */
+export function getScheduledBuckets({
+	variants,
+	schedule,
+	now,
+}: {
+	variants: WeightedVariant[];
+	schedule: WeightSchedule;
+	now: number;
+}): (string | null)[] | null {
+	const started = schedule
+		.filter((entry) => new Date(entry.start).getTime() <= now)
+		.sort(
+			(a, b) => new Date(a.start).getTime() - new Date(b.start).getTime(),
+		);
+
+	if (started.length === 0) {
+		return null;
+	}
+
+	return started.reduce(
+		(previous, entry) =>
+			assignBuckets({
+				variants: variants.map((v) => ({
+					id: v.id,
+					weight: entry.weights[v.id] ?? 0,
+				})),
+				previous,
+			}),
+		assignBuckets({ variants }),
+	);
 }
 
 /**
@@ -46,22 +178,40 @@ export function userPercentageHash({
  * @param userId - unique user identifier
  * @param flagKey - feature flag key
  * @param variants - array of {id, weight} objects, weights sum <= 100
- * @returns variant id
+ * @param salt - optional flag salt
+ * @param schedule - optional weight sets replacing the variant weights from their start
+ * @param now - timestamp of the evaluation, required with a schedule
+ * @returns variant id, or null if the bucket is unallocated
  */
-export function chooseVariant<T extends { id: string; weight: number }[]>({
+export function chooseVariant<T extends WeightedVariant[]>({
 	userId,
 	flagKey,
 	variants,
+	salt,
+	schedule,
+	now,
 }: {
 	userId: string;
 	flagKey: string;
 	variants: T;
+	salt?: string;
+	schedule?: WeightSchedule;
+	now?: number;
 }): T[number]["id"] | null {
-	const bucket = userPercentageHash({ userId, flagKey });
+	const bucket = userBucketHash({ userId, flagKey, salt });
+	const scheduled = schedule?.length
+		? getScheduledBuckets({ variants, schedule, now })
+		: null;
+
+	if (scheduled) {
+		// Weight sets are assigned in whole percents
+		return scheduled[Math.ceil(bucket / BUCKETS_PER_PERCENT) - 1];
+	}
+
 	let cumulative = 0;
 	for (const v of variants) {
 		cumulative += v.weight;
-		if (bucket <= cumulative) return v.id;
+		if (bucket <= percentageToBuckets(cumulative)) return v.id;
 	}
 	return null;
 }
@@ -70,251 +220,1246 @@ export function chooseVariant<T extends { id: string; weight: number }[]>({
  * Check if a user is included in a percentage rollout
  * @param userId - unique user identifier
  * @param flagKey - feature flag key
- * @param percentage - 0–100
+ * @param percentage - 0–100, fractions down to 0.001
+ * @param salt - optional flag salt
  * @returns boolean
  */
 export function isUserInRollout({
 	userId,
 	flagKey,
 	percentage,
+	salt,
 }: {
 	userId: string;
 	flagKey: string;
 	percentage: number;
+	salt?: string;
 }): boolean {
 	if (percentage === 100) {
 		return true;
 	}
-	const bucket = userPercentageHash({ userId, flagKey });
-	return bucket <= percentage;
+	const bucket = userBucketHash({ userId, flagKey, salt });
+	return bucket <= percentageToBuckets(percentage);
 }
 
 /**
- * Evaluate a single rollout step
- * @param step - The rollout step to evaluate
- * @param segments - Map of segment IDs to JEXL rules
- * @param userId - The user ID
- * @param flagKey - The flag key
- * @param input - The evaluation input context
- * @returns true if the user matches this rollout step
+ * Rollout percentage of a ramp at a point in time, interpolated linearly between its start and end
+ * Buckets are stable, so users only ever join a growing ramp, and only ever leave a shrinking one
+ * @param ramp - start and end dates with the percentages at each end
+ * @param now - timestamp of the evaluation
+ * @returns percentage between 0–100
+ */
+export function getRampPercentage({
+	ramp,
+	now,
+}: {
+	ramp: Ramp;
+	now: number;
+}): number {
+	const start = new Date(ramp.start).getTime();
+	const end = new Date(ramp.end).getTime();
+
+	if (now <= start) {
+		return ramp.from;
+	}
+	if (now >= end) {
+		return ramp.to;
+	}
+
+	return ramp.from + ((ramp.to - ramp.from) * (now - start)) / (end - start);
+}
+
+/**
+ * Pick the variation to serve for a targeting rule or fallthrough
+ * @param serve - Fixed variation or percentage split to serve
+ * @param userId - unique user identifier
+ * @param flagKey - feature flag key
+ * @param salt - optional flag salt
+ * @returns variation id
  */
-export function evaluateRolloutStep({
-	step,
-	segments,
+export function serveVariation({
+	serve,
 	userId,
 	flagKey,
-	input,
-	now,
+	salt,
 }: {
-	step: { start: string; segment?: string; percentage?: number };
-	segments: Record<string, string>;
+	serve: TargetingServe;
 	userId: string;
 	flagKey: string;
-	input: FlagEvaluationInput;
-	now: number;
+	salt?: string;
+}): string | null {
+	if (serve.variation !== undefined) {
+		return serve.variation;
+	}
+
+	return chooseVariant({
+		userId,
+		flagKey,
+		variants: (serve.split ?? []).map((split) => ({
+			id: split.variation,
+			weight: split.weight,
+		})),
+		salt,
+	});
+}
+
+/**
+ * Hash keys of the holdout and the layers start with a "/", which flag keys reject,
+ * so no flag shares its buckets with them
+ */
+const HOLDOUT_HASH_KEY = "/holdout";
+const LAYER_HASH_PREFIX = "/layers/";
+
+/**
+ * Check if a user is in the global holdout group
+ * The holdout bucket is shared by every flag, so the same users are held out of all experiments
+ * @param userId - user identifier
+ * @param holdout - holdout configuration of the environment
+ * @returns boolean
+ */
+export function isUserInHoldout({
+	userId,
+	holdout,
+}: {
+	userId: string;
+	holdout: Holdout;
 }): boolean {
-	// Check if rollout step has started
-	const startTime = new Date(step.start).getTime();
-	if (now < startTime) {
+	if (holdout.percentage === 0) {
 		return false;
 	}
+	const bucket = userBucketHash({ userId, flagKey: HOLDOUT_HASH_KEY });
+	return bucket <= percentageToBuckets(holdout.percentage);
+}
 
-	// Check segment condition
-	const stepSegmentPassed = step.segment
-		? segments[step.segment]
-			? jexl.evalSync(segments[step.segment], input)
-			: false // Return false if segment doesn't exist
-		: true; // No segment requirement means it passes
+/**
+ * Find the layer a flag is allocated in, a flag belongs to at most one layer
+ * @param layers - All layers in the environment
+ * @param flagKey - feature flag key
+ * @returns the layer and the flag's allocation, or null if the flag is not layered
+ */
+export function findFlagLayer({
+	layers,
+	flagKey,
+}: {
+	layers: Record<string, Layer>;
+	flagKey: string;
+}): { layer: Layer; allocation: LayerAllocation } | null {
+	for (const layer of Object.values(layers)) {
+		const allocation = layer.allocations.find((item) => item.flag === flagKey);
 
-	// Check percentage condition
-	const stepPercentagePassed =
-		step.percentage !== undefined
-			? isUserInRollout({
-					userId,
-					flagKey,
-					percentage: step.percentage,
-				})
-			: true; // No percentage requirement means it passes
+		if (allocation) {
+			return { layer, allocation };
+		}
+	}
 
-	return stepSegmentPassed && stepPercentagePassed;
+	return null;
 }
 
 /**
- * Evaluate all rollout steps (OR logic - user matches if ANY step passes)
- * @param rollouts - Array of rollout steps
- * @param segments - Map of segment IDs to JEXL rules
- * @param userId - The user ID
- * @param flagKey - The flag key
- * @param input - The evaluation input context
- * @returns true if the user matches at least one rollout step
+ * Check if a user's layer bucket falls in a flag's allocation
+ * Every flag in a layer shares the same bucket, so a user lands in at most one of them
+ * @param userId - bucketing key of the flag, its `bucketBy` value or the user identifier
+ * @param layerId - layer identifier
+ * @param allocation - the flag's allocation within the layer
+ * @returns boolean
  */
-export function evaluateRolloutSteps({
-	rollouts,
-	segments,
+export function isUserInLayerAllocation({
 	userId,
-	flagKey,
-	input,
-	now,
+	layerId,
+	allocation,
 }: {
-	rollouts: { start: string; segment?: string; percentage?: number }[];
-	segments: Record<string, string>;
 	userId: string;
-	flagKey: string;
-	input: FlagEvaluationInput;
+	layerId: string;
+	allocation: LayerAllocation;
+}): boolean {
+	const bucket = userBucketHash({
+		userId,
+		flagKey: `${LAYER_HASH_PREFIX}${layerId}`,
+	});
+	return (
+		bucket > percentageToBuckets(allocation.start) &&
+		bucket <= percentageToBuckets(allocation.end)
+	);
+}
+
+const toMinutes = (time: string) => {
+	const [hours, minutes] = time.split(":").map(Number);
+	return hours * 60 + minutes;
+};
+
+/**
+ * Check if a time falls in a schedule window
+ * Overnight windows (22:00–02:00) belong to the day they start on
+ * @param window - schedule window of the flag
+ * @param now - timestamp of the evaluation
+ * @param timeZone - time zone used when the window has none, defaults to UTC
+ * @returns boolean
+ */
+export function isInScheduleWindow({
+	window,
+	now,
+	timeZone,
+}: {
+	window: ScheduleWindow;
 	now: number;
+	timeZone?: string;
 }): boolean {
-	for (const step of rollouts) {
-		if (
-			evaluateRolloutStep({
-				step,
-				segments,
-				userId,
-				flagKey,
-				input,
-				now,
-			})
-		) {
-			return true; // First match wins
-		}
+	if (window.start && now < new Date(window.start).getTime()) {
+		return false;
+	}
+	if (window.end && now >= new Date(window.end).getTime()) {
+		return false;
+	}
+
+	// An unknown input time zone falls back to UTC
+	const parts =
+		getZonedParts(now, window.timezone ?? timeZone) ?? getZonedParts(now);
+	const minutes = parts.hour * 60 + parts.minute;
+	const startTime = window.startTime ? toMinutes(window.startTime) : 0;
+	const endTime = window.endTime ? toMinutes(window.endTime) : 24 * 60;
+	const isActiveDay = (day: number) =>
+		!window.days?.length || window.days.includes(day);
+
+	// An empty window, e.g. an endTime of 00:00 with the default startTime, never opens
+	if (startTime === endTime) {
+		return false;
+	}
+
+	if (startTime < endTime) {
+		return (
+			minutes >= startTime && minutes < endTime && isActiveDay(parts.dayOfWeek)
+		);
+	}
+
+	if (minutes >= startTime) {
+		return isActiveDay(parts.dayOfWeek);
 	}
-	return false; // No steps matched
+
+	return minutes < endTime && isActiveDay((parts.dayOfWeek + 6) % 7);
 }
 
-const getDefaultFlag = (flag: FeatureFlagInputSchema): FlagResultSchema => {
+/**
+ * Value of a flag that is off for the user: its off variation or default payload,
+ * otherwise false, null or the first variation
+ */
+const getDefaultFlag = (
+	flag: FeatureFlagInputSchema,
+	reason: EvaluationReason,
+): FlagResultSchema => {
 	switch (flag.type) {
 		case "boolean":
 			return {
 				type: "boolean",
 				result: false,
 				isEval: false,
+				reason,
 			};
 		case "payload":
 			return {
 				type: "payload",
-				result: null,
+				result: flag.defaultPayload ?? null,
 				isEval: false,
+				reason,
 			};
-		case "variant":
+		case "variant": {
+			const variation =
+				flag.variations.find(({ id }) => id === flag.offVariation) ??
+				flag.variations.at(0);
 			return {
 				type: "variant",
-				result: flag.variations.at(0)?.payload ?? flag.variations.at(0)?.id,
+				result: variation?.payload ?? variation?.id,
 				isEval: false,
+				reason,
+				variation: variation?.id,
 			};
+		}
 		default:
 			return {
 				type: "boolean",
 				result: false,
 				isEval: false,
+				reason,
 			};
 	}
 };
 
-/**
- * Evaluate a single feature flag for a given user/context input
- */
-export const evaluateFlag = (options: {
+export type EvaluationPlan = {
+	/**
+	 * Compiled JEXL expressions keyed by their source
+	 */
+	expressions: Map<string, Expression>;
+	/**
+	 * Keys of the lists the expressions read with `inList()`, the only ones to load
+	 */
+	lists: string[];
+};
+
+type EvaluateFlagOptions = {
 	input: FlagEvaluationInput;
 	flag: FeatureFlagInputSchema;
 	segments: Record<string, string>;
+	/**
+	 * All flags in the environment, used to resolve prerequisites
+	 */
+	flags?: Record<string, FeatureFlagInputSchema>;
+	/**
+	 * All layers in the environment, used to keep experiments mutually exclusive
+	 */
+	layers?: Record<string, Layer>;
+	/**
+	 * Holdout group of the environment, kept out of every experiment flag
+	 */
+	holdout?: Holdout;
+	/**
+	 * Compiled expressions of the environment, see `getEvaluationPlan`
+	 */
+	plan?: EvaluationPlan;
+	/**
+	 * Members of the lists of the environment, read by `inList()`
+	 */
+	lists?: Record<string, ReadonlySet<string>>;
 	now?: number;
-}): FlagResultSchema => {
-	const { input, flag, segments, now = Date.now() } = options;
+};
 
-	jexl.addFunction("now", () => now);
+type JexlInstance = InstanceType<typeof jexl.Jexl>;
 
-	if (!flag.enabled) {
-		return getDefaultFlag(flag);
-	}
+type EvaluationState = {
+	now: number;
+	input: FlagEvaluationInput;
+	segments: Record<string, string>;
+	plan?: EvaluationPlan;
+	lists?: Record<string, ReadonlySet<string>>;
+	/**
+	 * Keys of the segments being resolved by `segment()`, used to break cycles
+	 */
+	segmentChain: string[];
+};
 
-	const userId = input.id;
+export type ExpressionError = {
+	message: string;
+	/**
+	 * Index of the offending character in the expression
+	 */
+	position: number;
+};
 
-	const flagSegments = flag.segments.reduce<Record<string, string>>(
-		(acc, segmentKey) => {
-			acc[segmentKey] = segments[segmentKey];
-			return acc;
-		},
-		{},
+/**
+ * Locate a JEXL parser error in the expression it came from
+ * @param expression - The JEXL expression
+ * @param message - The parser error message
+ * @returns the index of the unexpected token, or the end of the expression
+ */
+function getErrorPosition(expression: string, message: string): number {
+	// "Token b (identifier) unexpected in expression: a b" ends with the parsed prefix
+	const unexpected = message.match(
+		/^Token (.+) \(\w+\) unexpected in expression: (.*)$/s,
 	);
+	if (unexpected) {
+		return Math.max(0, unexpected[2].trimEnd().length - unexpected[1].length);
+	}
 
-	// Evaluate all rules
-	const rulesPassed =
-		flag.rules.length === 0 ||
-		flag.rules.every((rule) => jexl.evalSync(rule, input));
+	const invalid = message.match(/^Invalid expression token: (.+)$/s);
+	if (invalid) {
+		return Math.max(0, expression.indexOf(invalid[1]));
+	}
 
-	if (!rulesPassed) {
-		return getDefaultFlag(flag);
+	return expression.length;
+}
+
+/**
+ * Find the first transform or function call missing from the JEXL instance
+ */
+function findUnknownCall(node: unknown, instance: JexlInstance): string | null {
+	if (!node || typeof node !== "object") {
+		return null;
 	}
 
-	const hasSegments = Object.values(flagSegments).length > 0;
-	const hasRolloutes = flag.rollouts.length > 0;
+	const call = node as { type?: string; name?: string; pool?: string };
 
-	// Only evaluate segments globally if they're not being used in rollout steps
-	// If rollout steps exist, segments are evaluated within those steps instead
-	if (!hasRolloutes && hasSegments) {
-		const segmentsPassed = Object.values(flagSegments).some((rule) =>
-			jexl.evalSync(rule, input),
-		);
+	if (call.type === "FunctionCall") {
+		const known =
+			call.pool === "transforms"
+				? instance.getTransform(call.name)
+				: instance.getFunction(call.name);
 
-		if (!segmentsPassed) {
-			return getDefaultFlag(flag);
+		if (!known) {
+			return call.name;
 		}
 	}
 
-	// Check rollout steps if any
-	if (hasRolloutes) {
-		const includedInRollout = evaluateRolloutSteps({
-			rollouts: flag.rollouts,
-			segments: flagSegments,
-			userId,
-			flagKey: flag.id,
-			input,
-			now,
-		});
+	for (const child of Object.values(node)) {
+		const name = findUnknownCall(child, instance);
+		if (name) {
+			return name;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Find the keys passed to a function in a compiled expression, e.g. `segment("key")`
+ * @returns the keys, and whether any call takes a computed key
+ */
+function findCallKeys(
+	ast: unknown,
+	name: string,
+): { keys: string[]; isDynamic: boolean } {
+	const keys = new Set<string>();
+	let isDynamic = false;
 
-		if (!includedInRollout) {
-			return getDefaultFlag(flag);
+	const visit = (node: unknown) => {
+		if (!node || typeof node !== "object") {
+			return;
 		}
-	} else {
-		// Only check main rollout percentage if no rollout steps exist
-		const inRollout = isUserInRollout({
-			userId,
-			flagKey: flag.id,
-			percentage: flag.rollout,
-		});
 
-		if (!inRollout) {
-			return getDefaultFlag(flag);
+		const call = node as {
+			type?: string;
+			name?: string;
+			pool?: string;
+			args?: { type?: string; value?: unknown }[];
+		};
+
+		if (
+			call.type === "FunctionCall" &&
+			call.pool === "functions" &&
+			call.name === name
+		) {
+			const [arg] = call.args ?? [];
+			if (arg?.type === "Literal" && typeof arg.value === "string") {
+				keys.add(arg.value);
+			} else {
+				isDynamic = true;
+			}
+		}
+
+		for (const child of Object.values(node)) {
+			visit(child);
+		}
+	};
+
+	visit(ast);
+
+	return { keys: [...keys], isDynamic };
+}
+
+export type EngineOptions = {
+	/**
+	 * Clock used when an evaluation does not pass its own `now`, defaults to `Date.now`
+	 */
+	clock?: () => number;
+	/**
+	 * Extra JEXL transforms, replacing built-in transforms with the same name
+	 */
+	transforms?: Record<string, JexlFunction>;
+	/**
+	 * Extra JEXL functions, replacing built-in functions with the same name
+	 */
+	functions?: Record<string, JexlFunction>;
+};
+
+/**
+ * Create a JEXL instance with the standard library of transforms and functions
+ * @param options - Extra transforms and functions
+ * @param getNow - Returns the time of the evaluation in progress, used by `now()`
+ * @returns a new JEXL instance, independent of the global one
+ */
+export function createJexl(
+	{ transforms = {}, functions = {} }: EngineOptions,
+	getNow: () => number,
+): JexlInstance {
+	const instance = new jexl.Jexl();
+
+	instance.addTransforms({ ...stdlibTransforms, ...transforms });
+	instance.addFunctions({ ...createStdlibFunctions(getNow), ...functions });
+
+	return instance;
+}
+
+/**
+ * Create an evaluation engine with its own JEXL instance and clock
+ * Evaluation is synchronous, so the time of one evaluation never leaks into another
+ * @param options - Clock, transforms and functions of the engine
+ */
+export function createEngine(options: EngineOptions = {}) {
+	const clock = options.clock ?? Date.now;
+	// The evaluation in progress, read by `now()`, `segment()` and `inList()`
+	let evaluation: EvaluationState | undefined;
+	const jexl = createJexl(options, () => evaluation?.now ?? clock());
+
+	jexl.addFunction("segment", (key: unknown) => evaluateSegment(key));
+	jexl.addFunction("inList", (key: unknown, value: unknown) =>
+		isInList(key, value),
+	);
+
+	/**
+	 * Compile every flag rule, targeting condition, bucketing path and segment of an environment
+	 * Invalid expressions are left out, so they still throw when evaluated
+	 * @param data - The flags and segments of an environment
+	 * @returns the compiled expressions and the lists they read
+	 */
+	function compileEvaluationPlan(
+		data: Pick<AppData, "flags" | "segments">,
+	): EvaluationPlan {
+		const expressions: EvaluationPlan["expressions"] = new Map();
+		const lists = new Set<string>();
+		const sources = [...Object.values(data.segments)];
+
+		for (const flag of Object.values(data.flags)) {
+			sources.push(...flag.rules);
+			if (flag.bucketBy) {
+				sources.push(flag.bucketBy);
+			}
+			if (flag.type === "variant") {
+				sources.push(...(flag.targeting ?? []).map((rule) => rule.condition));
+			}
+		}
+
+		for (const source of sources) {
+			if (expressions.has(source)) {
+				continue;
+			}
+			try {
+				const compiled = jexl.compile(source);
+				expressions.set(source, compiled);
+				for (const list of findCallKeys(compiled._getAst(), "inList").keys) {
+					lists.add(list);
+				}
+			} catch {
+				// Evaluating the raw expression reports the error per flag
+			}
 		}
+
+		return { expressions, lists: [...lists] };
 	}
 
-	// Handle different flag types
-	switch (flag.type) {
-		case "boolean":
+	const planCache = new Map<string, { version: string; plan: EvaluationPlan }>();
+
+	/**
+	 * Get the compiled evaluation plan of an environment, compiling it once per data version
+	 * @param key - The storage key of the environment
+	 * @param version - The version of the environment data
+	 * @param data - The flags and segments of the environment
+	 * @returns the cached or freshly compiled evaluation plan
+	 */
+	function getEvaluationPlan({
+		key,
+		version,
+		data,
+	}: {
+		key: string;
+		version: string;
+		data: Pick<AppData, "flags" | "segments">;
+	}): EvaluationPlan {
+		const cached = planCache.get(key);
+
+		if (cached?.version === version) {
+			return cached.plan;
+		}
+
+		const plan = compileEvaluationPlan(data);
+		planCache.set(key, { version, plan });
+		return plan;
+	}
+
+	/**
+	 * Check that an expression parses and only calls known transforms and functions
+	 * @param expression - The JEXL expression
+	 * @returns the error and its position, or null if the expression is valid
+	 */
+	function validateExpression(expression: string): ExpressionError | null {
+		let compiled: Expression;
+
+		try {
+			compiled = jexl.compile(expression);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			return { message, position: getErrorPosition(expression, message) };
+		}
+
+		const unknownCall = findUnknownCall(compiled._getAst(), jexl);
+
+		if (unknownCall) {
 			return {
-				type: "boolean",
-				result: true,
-				isEval: true,
+				message: `Unknown transform or function: ${unknownCall}`,
+				position: Math.max(0, expression.indexOf(unknownCall)),
 			};
+		}
 
-		case "payload":
+		return null;
+	}
+
+	/**
+	 * Evaluate an expression, using its compiled form from the plan when available
+	 */
+	function evalExpression(
+		expression: string,
+		input: FlagEvaluationInput,
+		plan?: EvaluationPlan,
+	) {
+		const compiled = plan?.expressions.get(expression);
+		return compiled ? compiled.evalSync(input) : jexl.evalSync(expression, input);
+	}
+
+	/**
+	 * Evaluate a segment by key, used by `segment("key")` in rules and other segments
+	 * Outside of `evaluateFlag` there are no segments to resolve, so it never matches
+	 * @param key - The segment key
+	 * @returns true if the segment exists and its rule passes
+	 */
+	function evaluateSegment(key: unknown): boolean {
+		if (typeof key !== "string" || !evaluation?.segments[key]) {
+			return false;
+		}
+
+		const { segments, segmentChain, input, plan } = evaluation;
+
+		// Segments are checked for cycles when saved, this guards against older data
+		if (segmentChain.includes(key)) {
+			throw new Error(
+				`Segment cycle detected: ${[...segmentChain, key].join(" -> ")}`,
+			);
+		}
+
+		segmentChain.push(key);
+		try {
+			return Boolean(evalExpression(segments[key], input, plan));
+		} finally {
+			segmentChain.pop();
+		}
+	}
+
+	/**
+	 * Check if a value is a member of a list, used by `inList("key", user.id)` in rules and segments
+	 * Outside of `evaluateFlag` there are no lists to read, so it never matches
+	 * @param key - The list key
+	 * @param value - The ID to look up, numbers are compared as strings
+	 * @returns true if the list exists and contains the value
+	 */
+	function isInList(key: unknown, value: unknown): boolean {
+		if (
+			typeof key !== "string" ||
+			(typeof value !== "string" && typeof value !== "number")
+		) {
+			return false;
+		}
+
+		return evaluation?.lists?.[key]?.has(String(value)) ?? false;
+	}
+
+	/**
+	 * Find the keys an expression passes to a function, e.g. `segment("key")`
+	 * @param expression - The JEXL expression
+	 * @param name - The function name
+	 * @returns the keys, and whether any call takes a computed key. An invalid expression references nothing
+	 */
+	function findReferences(
+		expression: string,
+		name: string,
+	): { keys: string[]; isDynamic: boolean } {
+		try {
+			return findCallKeys(jexl.compile(expression)._getAst(), name);
+		} catch {
+			// Invalid expressions are reported by `validateExpression`
+			return { keys: [], isDynamic: false };
+		}
+	}
+
+	/**
+	 * Find the segments an expression references with `segment("key")`
+	 * @param expression - The JEXL expression
+	 * @returns the referenced segment keys, and whether any call takes a computed key
+	 */
+	function findSegmentReferences(expression: string): {
+		segments: string[];
+		isDynamic: boolean;
+	} {
+		const { keys, isDynamic } = findReferences(expression, "segment");
+		return { segments: keys, isDynamic };
+	}
+
+	/**
+	 * Find the lists an expression references with `inList("key", value)`
+	 * @param expression - The JEXL expression
+	 * @returns the referenced list keys, and whether any call takes a computed key
+	 */
+	function findListReferences(expression: string): {
+		lists: string[];
+		isDynamic: boolean;
+	} {
+		const { keys, isDynamic } = findReferences(expression, "inList");
+		return { lists: keys, isDynamic };
+	}
+
+	/**
+	 * Evaluate a single rollout step
+	 * @param step - The rollout step to evaluate
+	 * @param segments - Map of segment IDs to JEXL rules
+	 * @param userId - The user ID
+	 * @param flagKey - The flag key
+	 * @param input - The evaluation input context
+	 * @param salt - Optional flag salt
+	 * @param plan - Optional compiled evaluation plan
+	 * @returns true if the user matches this rollout step
+	 */
+	function evaluateRolloutStep({
+		step,
+		segments,
+		userId,
+		flagKey,
+		input,
+		now,
+		salt,
+		plan,
+	}: {
+		step: RolloutStep;
+		segments: Record<string, string>;
+		userId: string;
+		flagKey: string;
+		input: FlagEvaluationInput;
+		now: number;
+		salt?: string;
+		plan?: EvaluationPlan;
+	}): boolean {
+		// Check if rollout step has started
+		const startTime = new Date(step.start).getTime();
+		if (now < startTime) {
+			return false;
+		}
+
+		// Check if rollout step has ended
+		if (step.end && now >= new Date(step.end).getTime()) {
+			return false;
+		}
+
+		// Check segment condition
+		const stepSegmentPassed = step.segment
+			? segments[step.segment]
+				? evalExpression(segments[step.segment], input, plan)
+				: false // Return false if segment doesn't exist
+			: true; // No segment requirement means it passes
+
+		// Check percentage condition
+		const stepPercentagePassed =
+			step.percentage !== undefined
+				? isUserInRollout({
+						userId,
+						flagKey,
+						percentage: step.percentage,
+						salt,
+					})
+				: true; // No percentage requirement means it passes
+
+		return stepSegmentPassed && stepPercentagePassed;
+	}
+
+	/**
+	 * Find the first rollout step the user matches
+	 * @param rollouts - Array of rollout steps
+	 * @param segments - Map of segment IDs to JEXL rules
+	 * @param userId - The user ID
+	 * @param flagKey - The flag key
+	 * @param input - The evaluation input context
+	 * @param salt - Optional flag salt
+	 * @param plan - Optional compiled evaluation plan
+	 * @returns index of the first matching rollout step, or -1 if none match
+	 */
+	function findRolloutStep({
+		rollouts,
+		segments,
+		userId,
+		flagKey,
+		input,
+		now,
+		salt,
+		plan,
+	}: {
+		rollouts: RolloutStep[];
+		segments: Record<string, string>;
+		userId: string;
+		flagKey: string;
+		input: FlagEvaluationInput;
+		now: number;
+		salt?: string;
+		plan?: EvaluationPlan;
+	}): number {
+		return rollouts.findIndex((step) =>
+			evaluateRolloutStep({
+				step,
+				segments,
+				userId,
+				flagKey,
+				input,
+				now,
+				salt,
+				plan,
+			}),
+		);
+	}
+
+	/**
+	 * Evaluate all rollout steps (OR logic - user matches if ANY step passes)
+	 * @param rollouts - Array of rollout steps
+	 * @param segments - Map of segment IDs to JEXL rules
+	 * @param userId - The user ID
+	 * @param flagKey - The flag key
+	 * @param input - The evaluation input context
+	 * @returns true if the user matches at least one rollout step
+	 */
+	function evaluateRolloutSteps(options: {
+		rollouts: RolloutStep[];
+		segments: Record<string, string>;
+		userId: string;
+		flagKey: string;
+		input: FlagEvaluationInput;
+		now: number;
+		salt?: string;
+		plan?: EvaluationPlan;
+	}): boolean {
+		return findRolloutStep(options) !== -1; // First match wins
+	}
+
+	/**
+	 * Choose the variation of a variant flag (ordered targeting rules, then fallthrough, then weights)
+	 * @param flag - The variant flag being evaluated
+	 * @param userId - unique user identifier
+	 * @param input - The evaluation input context
+	 * @param plan - Optional compiled evaluation plan
+	 * @returns the chosen variation id and the index of the matched targeting rule, if any
+	 */
+	function chooseTargetedVariant({
+		flag,
+		userId,
+		input,
+		now,
+		plan,
+	}: {
+		flag: Extract<FeatureFlagInputSchema, { type: "variant" }>;
+		userId: string;
+		input: FlagEvaluationInput;
+		now: number;
+		plan?: EvaluationPlan;
+	}): { variantId: string | null; ruleIndex?: number } {
+		// Variations are hashed apart from the flag key that decides the rollout,
+		// so every variation gets its share of the users the rollout lets in
+		const targeting = flag.targeting ?? [];
+
+		for (let ruleIndex = 0; ruleIndex < targeting.length; ruleIndex++) {
+			const rule = targeting[ruleIndex];
+			if (evalExpression(rule.condition, input, plan)) {
+				return {
+					variantId: serveVariation({
+						serve: rule.serve,
+						userId,
+						flagKey: `${flag.id}/targeting/${ruleIndex}`,
+						salt: flag.salt,
+					}),
+					ruleIndex,
+				};
+			}
+		}
+
+		if (flag.fallthrough) {
 			return {
-				type: "payload",
-				result: flag.payload ?? null,
-				isEval: true,
+				variantId: serveVariation({
+					serve: flag.fallthrough,
+					userId,
+					flagKey: `${flag.id}/fallthrough`,
+					salt: flag.salt,
+				}),
 			};
+		}
 
-		case "variant": {
-			const variantId = chooseVariant({
+		return {
+			variantId: chooseVariant({
 				userId,
-				flagKey: flag.id,
+				flagKey: `${flag.id}/variations`,
 				variants: flag.variations,
+				salt: flag.salt,
+				schedule: flag.weightSchedule,
+				now,
+			}),
+		};
+	}
+
+	/**
+	 * Resolve the value used to bucket a user into rollouts and variations
+	 * @param flag - The flag being evaluated
+	 * @param input - The evaluation input context
+	 * @param plan - Optional compiled evaluation plan
+	 * @returns the value at the flag's `bucketBy` path, falling back to the input ID when missing
+	 */
+	function getBucketKey({
+		flag,
+		input,
+		plan,
+	}: {
+		flag: FeatureFlagInputSchema;
+		input: FlagEvaluationInput;
+		plan?: EvaluationPlan;
+	}): string {
+		if (!flag.bucketBy) {
+			return input.id;
+		}
+
+		const value = evalExpression(flag.bucketBy, input, plan);
+
+		if (value === undefined || value === null || value === "") {
+			return input.id;
+		}
+
+		return String(value);
+	}
+
+	/**
+	 * Build the result for a user who is served the flag
+	 * @param variationId - Variation to serve for variant flags, skipping targeting and weights
+	 */
+	const getServedFlag = ({
+		flag,
+		reason,
+		userId,
+		input,
+		now,
+		variationId,
+		plan,
+	}: {
+		flag: FeatureFlagInputSchema;
+		reason: EvaluationReason;
+		userId: string;
+		input: FlagEvaluationInput;
+		now: number;
+		variationId?: string;
+		plan?: EvaluationPlan;
+	}): FlagResultSchema => {
+		// Handle different flag types
+		switch (flag.type) {
+			case "boolean":
+				return {
+					type: "boolean",
+					result: true,
+					isEval: true,
+					reason,
+				};
+
+			case "payload":
+				return {
+					type: "payload",
+					result: flag.payload ?? null,
+					isEval: true,
+					reason,
+				};
+
+			case "variant": {
+				const { variantId, ruleIndex } =
+					variationId !== undefined
+						? { variantId: variationId, ruleIndex: undefined }
+						: chooseTargetedVariant({
+								flag,
+								userId,
+								input,
+								now,
+								plan,
+							});
+				// Weights of partial flags leave some buckets without a variation
+				if (variantId === null) {
+					return getDefaultFlag(flag, { kind: "UNALLOCATED" });
+				}
+
+				const variant = flag.variations.find((v) => v.id === variantId);
+
+				if (!variant) {
+					return getDefaultFlag(flag, {
+						kind: "ERROR",
+						errorMessage: `Unknown variation "${variantId}"`,
+					});
+				}
+
+				return {
+					type: "variant",
+					result: variant.payload ?? variant.id,
+					isEval: true,
+					reason:
+						ruleIndex !== undefined ? { kind: "RULE_MATCH", ruleIndex } : reason,
+					variation: variant.id,
+				};
+			}
+		}
+	};
+
+	/**
+	 * Find the first prerequisite of a flag that is not met (AND logic - every prerequisite must pass)
+	 * @param options - The evaluation options of the dependent flag
+	 * @param chain - Flag keys already being evaluated, used to break cycles
+	 * @returns the failed prerequisite, or null if every prerequisite flag is served with the required variation
+	 */
+	function findFailedPrerequisite(
+		options: EvaluateFlagOptions,
+		chain: string[],
+	): FlagPrerequisite | null {
+		const { flag, flags = {} } = options;
+
+		for (const prerequisite of flag.prerequisites ?? []) {
+			const prerequisiteFlag = flags[prerequisite.flag];
+
+			// Missing or cyclic prerequisites can never pass
+			if (!prerequisiteFlag || chain.includes(prerequisite.flag)) {
+				return prerequisite;
+			}
+
+			const { isEval, variation } = evaluateFlagInChain(
+				{ ...options, flag: prerequisiteFlag },
+				chain,
+			);
+
+			if (!isEval) {
+				return prerequisite;
+			}
+
+			if (
+				prerequisite.variation !== undefined &&
+				variation !== prerequisite.variation
+			) {
+				return prerequisite;
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Evaluate a single feature flag for a given user/context input
+	 * Never throws: errors are returned as the default value with an ERROR reason
+	 */
+	function evaluateFlag(options: EvaluateFlagOptions): FlagResultSchema {
+		const now = options.now ?? clock();
+		const previousEvaluation = evaluation;
+
+		evaluation = {
+			now,
+			input: options.input,
+			segments: options.segments,
+			plan: options.plan,
+			lists: options.lists,
+			segmentChain: [],
+		};
+		try {
+			return evaluateFlagInChain({ ...options, now }, []);
+		} catch (error) {
+			// A broken rule only fails its own flag, which falls back to its default value
+			return getDefaultFlag(options.flag, {
+				kind: "ERROR",
+				errorMessage: error instanceof Error ? error.message : String(error),
 			});
-			const variant = flag.variations.find((v) => v.id === variantId);
-			return {
-				type: "variant",
-				result: variant?.payload ?? variant.id,
-				isEval: true,
-			};
+		} finally {
+			evaluation = previousEvaluation;
 		}
 	}
-};
+
+	const evaluateFlagInChain = (
+		options: EvaluateFlagOptions,
+		chain: string[],
+	): FlagResultSchema => {
+		const {
+			input,
+			flag,
+			segments,
+			layers = {},
+			holdout,
+			plan,
+			now = clock(),
+		} = options;
+
+		if (!flag.enabled) {
+			return getDefaultFlag(flag, { kind: "DISABLED" });
+		}
+
+		if (flag.expiresAt && now >= new Date(flag.expiresAt).getTime()) {
+			return getDefaultFlag(flag, { kind: "EXPIRED" });
+		}
+
+		// Prerequisite flags must be served before this flag is considered
+		const failedPrerequisite = findFailedPrerequisite({ ...options, now }, [
+			...chain,
+			flag.id,
+		]);
+
+		if (failedPrerequisite) {
+			return getDefaultFlag(flag, {
+				kind: "PREREQUISITE_FAILED",
+				prerequisite: failedPrerequisite.flag,
+			});
+		}
+
+		const userId = input.id;
+		const bucketKey = getBucketKey({ flag, input, plan });
+
+		// Individually targeted users skip rules, segments and rollouts
+		if (flag.exclude?.includes(userId)) {
+			return getDefaultFlag(flag, { kind: "TARGET_EXCLUDED" });
+		}
+
+		const targetedVariation =
+			flag.type === "variant"
+				? flag.variations.find((variation) =>
+						variation.include?.includes(userId),
+					)
+				: undefined;
+
+		if (targetedVariation || flag.include?.includes(userId)) {
+			return getServedFlag({
+				flag,
+				reason: { kind: "TARGET_MATCH" },
+				userId: bucketKey,
+				input,
+				now,
+				variationId: targetedVariation?.id,
+				plan,
+			});
+		}
+
+		// The holdout stays per user, whatever the flag's `bucketBy`: it has to hold out
+		// the same users from every experiment to measure their cumulative impact
+		if (flag.isExperiment && holdout && isUserInHoldout({ userId, holdout })) {
+			return getDefaultFlag(flag, { kind: "HOLDOUT" });
+		}
+
+		// Layered flags only see the users whose layer bucket falls in their allocation
+		const flagLayer = findFlagLayer({ layers, flagKey: flag.id });
+
+		if (
+			flagLayer &&
+			!isUserInLayerAllocation({
+				userId: bucketKey,
+				layerId: flagLayer.layer.id,
+				allocation: flagLayer.allocation,
+			})
+		) {
+			return getDefaultFlag(flag, {
+				kind: "LAYER_EXCLUDED",
+				layer: flagLayer.layer.id,
+			});
+		}
+
+		// Scheduled flags are only active in one of their windows
+		if (
+			flag.schedule?.length &&
+			!flag.schedule.some((window) =>
+				isInScheduleWindow({ window, now, timeZone: input.geo?.timezone }),
+			)
+		) {
+			return getDefaultFlag(flag, { kind: "SCHEDULE_MISMATCH" });
+		}
+
+		const flagSegments = flag.segments.reduce<Record<string, string>>(
+			(acc, segmentKey) => {
+				acc[segmentKey] = segments[segmentKey];
+				return acc;
+			},
+			{},
+		);
+
+		// Evaluate all rules
+		const rulesPassed =
+			flag.rules.length === 0 ||
+			flag.rules.every((rule) => evalExpression(rule, input, plan));
+
+		if (!rulesPassed) {
+			return getDefaultFlag(flag, { kind: "RULE_MISMATCH" });
+		}
+
+		const hasSegments = Object.values(flagSegments).length > 0;
+		const hasRolloutes = flag.rollouts.length > 0;
+
+		// Only evaluate segments globally if they're not being used in rollout steps
+		// If rollout steps exist, segments are evaluated within those steps instead
+		if (!hasRolloutes && hasSegments) {
+			const segmentsPassed = Object.values(flagSegments).some((rule) =>
+				evalExpression(rule, input, plan),
+			);
+
+			if (!segmentsPassed) {
+				return getDefaultFlag(flag, { kind: "SEGMENT_MISMATCH" });
+			}
+		}
+
+		let reason: EvaluationReason = { kind: "FALLTHROUGH" };
+
+		// Check rollout steps if any
+		if (hasRolloutes) {
+			const stepIndex = findRolloutStep({
+				rollouts: flag.rollouts,
+				segments: flagSegments,
+				userId: bucketKey,
+				flagKey: flag.id,
+				input,
+				now,
+				salt: flag.salt,
+				plan,
+			});
+
+			if (stepIndex === -1) {
+				return getDefaultFlag(flag, { kind: "ROLLOUT_EXCLUDED" });
+			}
+
+			reason = { kind: "ROLLOUT_STEP_MATCHED", stepIndex };
+		} else {
+			// Only check main rollout percentage if no rollout steps exist
+			const inRollout = isUserInRollout({
+				userId: bucketKey,
+				flagKey: flag.id,
+				percentage: flag.ramp
+					? getRampPercentage({ ramp: flag.ramp, now })
+					: flag.rollout,
+				salt: flag.salt,
+			});
+
+			if (!inRollout) {
+				return getDefaultFlag(flag, { kind: "ROLLOUT_EXCLUDED" });
+			}
+		}
+
+		return getServedFlag({
+			flag,
+			reason,
+			userId: bucketKey,
+			input,
+			now,
+			plan,
+		});
+	};
+
+	return {
+		jexl,
+		evaluateFlag,
+		evaluateRolloutStep,
+		findRolloutStep,
+		evaluateRolloutSteps,
+		getBucketKey,
+		compileEvaluationPlan,
+		getEvaluationPlan,
+		validateExpression,
+		findSegmentReferences,
+		findListReferences,
+	};
+}
+
+export type Engine = ReturnType<typeof createEngine>;
+
+/**
+ * Engine with the default clock, transforms and functions
+ */
+export const defaultEngine = createEngine();
+
+export const {
+	evaluateFlag,
+	evaluateRolloutStep,
+	findRolloutStep,
+	evaluateRolloutSteps,
+	getBucketKey,
+	compileEvaluationPlan,
+	getEvaluationPlan,
+	validateExpression,
+	findSegmentReferences,
+	findListReferences,
+} = defaultEngine;
@@ -3,6 +3,7 @@ import type { ContentfulStatusCode } from "hono/utils/http-status";
 const ERROR_CODES = [
 	"TOO_MANY_REQUESTS",
 	"NOT_FOUND",
+	"CONFLICT",
 
 	"INVALID_BODY",
 	"INVALID_PARAMS",
@@ -41,6 +42,8 @@ export class FlagglyError extends Error {
 		switch (this.code) {
 			case "NOT_FOUND":
 				return 404;
+			case "CONFLICT":
+				return 409;
 			case "TOO_MANY_REQUESTS":
 				return 429;
 			case "INVALID_BODY":
@@ -0,0 +1,143 @@
+type ParsedIp = {
+	version: 4 | 6;
+	value: bigint;
+};
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+const IPV4_MAPPED_PREFIX = 0xffffn << 32n;
+
+const parseIpv4 = (address: string): bigint | null => {
+	const match = address.match(IPV4_PATTERN);
+
+	if (!match) {
+		return null;
+	}
+
+	let value = 0n;
+	for (const part of match.slice(1)) {
+		const octet = Number(part);
+		if (octet > 255) {
+			return null;
+		}
+		value = (value << 8n) | BigInt(octet);
+	}
+
+	return value;
+};
+
+const parseIpv6 = (address: string): bigint | null => {
+	const halves = address.split("::");
+
+	if (halves.length > 2) {
+		return null;
+	}
+
+	const toGroups = (half: string): number[] | null => {
+		if (half === "") {
+			return [];
+		}
+
+		const groups: number[] = [];
+		const parts = half.split(":");
+
+		for (const [index, part] of parts.entries()) {
+			// An embedded IPv4 address takes the last two groups: ::ffff:10.0.0.1
+			if (index === parts.length - 1 && part.includes(".")) {
+				const ipv4 = parseIpv4(part);
+				if (ipv4 === null) {
+					return null;
+				}
+				groups.push(Number(ipv4 >> 16n), Number(ipv4 & 0xffffn));
+				continue;
+			}
+			if (!/^[0-9a-fA-F]{1,4}$/.test(part)) {
+				return null;
+			}
+			groups.push(Number.parseInt(part, 16));
+		}
+
+		return groups;
+	};
+
+	const head = toGroups(halves[0]);
+	const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+
+	if (!head || !tail) {
+		return null;
+	}
+
+	const missing = 8 - head.length - tail.length;
+
+	if (halves.length === 2 ? missing < 1 : missing !== 0) {
+		return null;
+	}
+
+	return [...head, ...Array(missing).fill(0), ...tail].reduce(
+		(value: bigint, group: number) => (value << 16n) | BigInt(group),
+		0n,
+	);
+};
+
+/**
+ * Parse an IPv4 or IPv6 address, IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are read as IPv4
+ * @returns the version and the numeric value, or null if it is not an address
+ */
+export function parseIp(address: unknown): ParsedIp | null {
+	if (typeof address !== "string") {
+		return null;
+	}
+
+	// Drop the zone of link-local addresses: fe80::1%eth0
+	const trimmed = address.trim().replace(/%.*$/, "");
+
+	if (!trimmed.includes(":")) {
+		const value = parseIpv4(trimmed);
+		return value === null ? null : { version: 4, value };
+	}
+
+	const value = parseIpv6(trimmed.replace(/^\[|\]$/g, ""));
+
+	if (value === null) {
+		return null;
+	}
+
+	if (value >> 32n === 0xffffn) {
+		return { version: 4, value: value ^ IPV4_MAPPED_PREFIX };
+	}
+
+	return { version: 6, value };
+}
+
+/**
+ * Check if an address is in a CIDR range, a range without a prefix length matches a single address
+ * @param ip - e.g. "10.1.2.3", "2001:db8::1"
+ * @param cidr - e.g. "10.0.0.0/8", "2001:db8::/32"
+ * @returns false if the address or the range is invalid, or if their versions differ
+ */
+export function isIpInCidr(ip: unknown, cidr: unknown): boolean {
+	if (typeof cidr !== "string") {
+		return false;
+	}
+
+	const address = parseIp(ip);
+	const [base, prefix, ...rest] = cidr.trim().split("/");
+	const network = parseIp(base);
+
+	if (!address || !network || rest.length > 0) {
+		return false;
+	}
+
+	const bits = network.version === 4 ? 32 : 128;
+	const length = prefix === undefined ? bits : Number(prefix);
+
+	if (
+		address.version !== network.version ||
+		!/^\d+$/.test(prefix ?? String(bits)) ||
+		length > bits
+	) {
+		return false;
+	}
+
+	const shift = BigInt(bits - length);
+	return address.value >> shift === network.value >> shift;
+}
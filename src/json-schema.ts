@@ -0,0 +1,365 @@
+import { getRegex } from "./stdlib";
+
+/**
+ * A JSON Schema, or `true` / `false` to accept or reject every value
+ */
+export type JsonSchema = boolean | { [keyword: string]: unknown };
+
+export type JsonSchemaError = {
+	/**
+	 * JSON pointer to the invalid value, "" for the value itself
+	 */
+	path: string;
+	message: string;
+};
+
+const TYPES = [
+	"string",
+	"number",
+	"integer",
+	"boolean",
+	"object",
+	"array",
+	"null",
+];
+
+const NUMBER_KEYWORDS = [
+	"minimum",
+	"maximum",
+	"exclusiveMinimum",
+	"exclusiveMaximum",
+	"multipleOf",
+	"minLength",
+	"maxLength",
+	"minItems",
+	"maxItems",
+];
+
+const SCHEMA_LIST_KEYWORDS = ["allOf", "anyOf", "oneOf"];
+
+/**
+ * Keywords `validateJsonSchema` checks, plus annotations that never affect validation
+ */
+const KNOWN_KEYWORDS = new Set([
+	"type",
+	"enum",
+	"const",
+	...NUMBER_KEYWORDS,
+	"pattern",
+	"items",
+	"uniqueItems",
+	"properties",
+	"required",
+	"additionalProperties",
+	"not",
+	...SCHEMA_LIST_KEYWORDS,
+	"$schema",
+	"$id",
+	"$comment",
+	"title",
+	"description",
+	"default",
+	"examples",
+]);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const matchesType = (value: unknown, type: unknown): boolean => {
+	switch (type) {
+		case "integer":
+			return Number.isInteger(value);
+		case "number":
+			return typeof value === "number" && Number.isFinite(value);
+		case "object":
+			return isObject(value);
+		case "array":
+			return Array.isArray(value);
+		case "null":
+			return value === null;
+		default:
+			return typeof value === type;
+	}
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+	if (Array.isArray(a) && Array.isArray(b)) {
+		return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+	}
+	if (isObject(a) && isObject(b)) {
+		const keys = Object.keys(a);
+		return (
+			keys.length === Object.keys(b).length &&
+			keys.every((key) => Object.hasOwn(b, key) && isEqual(a[key], b[key]))
+		);
+	}
+	return a === b;
+};
+
+const toPointer = (path: string, key: string | number) =>
+	`${path}/${String(key).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+
+/**
+ * Find the first problem of a JSON Schema, nested schemas included
+ * Keywords outside of the supported subset are rejected, so no constraint is silently skipped
+ * @returns the problem, or null if the schema can be used to validate values
+ */
+export function findJsonSchemaError(schema: unknown, path = ""): string | null {
+	if (typeof schema === "boolean") {
+		return null;
+	}
+
+	if (!isObject(schema)) {
+		return `${path || "/"} must be an object or a boolean`;
+	}
+
+	const unknownKeyword = Object.keys(schema).find(
+		(keyword) => !KNOWN_KEYWORDS.has(keyword),
+	);
+	if (unknownKeyword !== undefined) {
+		return `${toPointer(path, unknownKeyword)} is not supported`;
+	}
+
+	const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+	if (schema.type !== undefined && !types.every((t) => TYPES.includes(t))) {
+		return `${path}/type must be one of ${TYPES.join(", ")}`;
+	}
+
+	for (const keyword of NUMBER_KEYWORDS) {
+		if (schema[keyword] !== undefined && typeof schema[keyword] !== "number") {
+			return `${path}/${keyword} must be a number`;
+		}
+	}
+
+	if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+		return `${path}/enum must be an array`;
+	}
+
+	if (
+		schema.required !== undefined &&
+		!(
+			Array.isArray(schema.required) &&
+			schema.required.every((key) => typeof key === "string")
+		)
+	) {
+		return `${path}/required must be an array of property names`;
+	}
+
+	if (
+		schema.uniqueItems !== undefined &&
+		typeof schema.uniqueItems !== "boolean"
+	) {
+		return `${path}/uniqueItems must be a boolean`;
+	}
+
+	if (schema.pattern !== undefined && !getRegex(String(schema.pattern), "u")) {
+		return `${path}/pattern must be a valid regular expression`;
+	}
+
+	const nested: [string, unknown][] = [];
+
+	if (schema.properties !== undefined) {
+		if (!isObject(schema.properties)) {
+			return `${path}/properties must be an object`;
+		}
+		for (const [key, property] of Object.entries(schema.properties)) {
+			nested.push([toPointer(`${path}/properties`, key), property]);
+		}
+	}
+
+	for (const keyword of ["items", "additionalProperties", "not"]) {
+		if (schema[keyword] !== undefined) {
+			nested.push([`${path}/${keyword}`, schema[keyword]]);
+		}
+	}
+
+	for (const keyword of SCHEMA_LIST_KEYWORDS) {
+		if (schema[keyword] === undefined) {
+			continue;
+		}
+		if (!Array.isArray(schema[keyword]) || schema[keyword].length === 0) {
+			return `${path}/${keyword} must be a non-empty array of schemas`;
+		}
+		schema[keyword].forEach((item, index) => {
+			nested.push([`${path}/${keyword}/${index}`, item]);
+		});
+	}
+
+	for (const [nestedPath, nestedSchema] of nested) {
+		const error = findJsonSchemaError(nestedSchema, nestedPath);
+		if (error) {
+			return error;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Validate a value against a JSON Schema
+ * Supports type, enum, const, the string, number, array and object size keywords, pattern,
+ * properties, required, additionalProperties, items, uniqueItems, allOf, anyOf, oneOf and not
+ * @param value - The value to validate
+ * @param schema - A schema accepted by `findJsonSchemaError`
+ * @returns every error found, empty if the value is valid
+ */
+export function validateJsonSchema(
+	value: unknown,
+	schema: JsonSchema,
+	path = "",
+): JsonSchemaError[] {
+	if (schema === true) {
+		return [];
+	}
+	if (schema === false) {
+		return [{ path, message: "is not allowed" }];
+	}
+
+	const errors: JsonSchemaError[] = [];
+	const fail = (message: string) => errors.push({ path, message });
+
+	if (schema.type !== undefined) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!types.some((type) => matchesType(value, type))) {
+			// A value of the wrong type can't be checked any further
+			return [{ path, message: `must be ${types.join(" or ")}` }];
+		}
+	}
+
+	if (
+		Array.isArray(schema.enum) &&
+		!schema.enum.some((item) => isEqual(item, value))
+	) {
+		fail(`must be one of ${JSON.stringify(schema.enum)}`);
+	}
+
+	if (schema.const !== undefined && !isEqual(schema.const, value)) {
+		fail(`must be ${JSON.stringify(schema.const)}`);
+	}
+
+	const limit = (keyword: string) =>
+		typeof schema[keyword] === "number" ? (schema[keyword] as number) : null;
+
+	if (typeof value === "string") {
+		// Lengths count code points, not UTF-16 units
+		const length = [...value].length;
+		if (limit("minLength") !== null && length < limit("minLength")) {
+			fail(`must have at least ${limit("minLength")} characters`);
+		}
+		if (limit("maxLength") !== null && length > limit("maxLength")) {
+			fail(`must have at most ${limit("maxLength")} characters`);
+		}
+		if (
+			typeof schema.pattern === "string" &&
+			!getRegex(schema.pattern, "u")?.test(value)
+		) {
+			fail(`must match ${schema.pattern}`);
+		}
+	}
+
+	if (typeof value === "number") {
+		if (limit("minimum") !== null && value < limit("minimum")) {
+			fail(`must be >= ${limit("minimum")}`);
+		}
+		if (limit("maximum") !== null && value > limit("maximum")) {
+			fail(`must be <= ${limit("maximum")}`);
+		}
+		if (
+			limit("exclusiveMinimum") !== null &&
+			value <= limit("exclusiveMinimum")
+		) {
+			fail(`must be > ${limit("exclusiveMinimum")}`);
+		}
+		if (
+			limit("exclusiveMaximum") !== null &&
+			value >= limit("exclusiveMaximum")
+		) {
+			fail(`must be < ${limit("exclusiveMaximum")}`);
+		}
+		if (
+			limit("multipleOf") &&
+			!Number.isInteger(
+				Math.round((value / limit("multipleOf")) * 1e9) / 1e9,
+			)
+		) {
+			fail(`must be a multiple of ${limit("multipleOf")}`);
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (limit("minItems") !== null && value.length < limit("minItems")) {
+			fail(`must have at least ${limit("minItems")} items`);
+		}
+		if (limit("maxItems") !== null && value.length > limit("maxItems")) {
+			fail(`must have at most ${limit("maxItems")} items`);
+		}
+		const isDuplicate = (item: unknown, index: number) =>
+			value.slice(0, index).some((other) => isEqual(other, item));
+
+		if (schema.uniqueItems === true && value.some(isDuplicate)) {
+			fail("must not contain duplicate items");
+		}
+		if (schema.items !== undefined) {
+			value.forEach((item, index) => {
+				errors.push(
+					...validateJsonSchema(
+						item,
+						schema.items as JsonSchema,
+						toPointer(path, index),
+					),
+				);
+			});
+		}
+	}
+
+	if (isObject(value)) {
+		const properties = isObject(schema.properties) ? schema.properties : {};
+
+		for (const key of Array.isArray(schema.required) ? schema.required : []) {
+			if (!Object.hasOwn(value, key)) {
+				fail(`must have the property "${key}"`);
+			}
+		}
+
+		for (const [key, item] of Object.entries(value)) {
+			const itemSchema = Object.hasOwn(properties, key)
+				? properties[key]
+				: schema.additionalProperties;
+
+			if (itemSchema === false) {
+				fail(`must not have the property "${key}"`);
+			} else if (itemSchema !== undefined) {
+				errors.push(
+					...validateJsonSchema(
+						item,
+						itemSchema as JsonSchema,
+						toPointer(path, key),
+					),
+				);
+			}
+		}
+	}
+
+	const matches = (subschema: unknown) =>
+		validateJsonSchema(value, subschema as JsonSchema, path).length === 0;
+
+	if (Array.isArray(schema.allOf)) {
+		for (const subschema of schema.allOf) {
+			errors.push(...validateJsonSchema(value, subschema as JsonSchema, path));
+		}
+	}
+	if (Array.isArray(schema.anyOf) && !schema.anyOf.some(matches)) {
+		fail("must match at least one schema of anyOf");
+	}
+	if (
+		Array.isArray(schema.oneOf) &&
+		schema.oneOf.filter(matches).length !== 1
+	) {
+		fail("must match exactly one schema of oneOf");
+	}
+	if (schema.not !== undefined && matches(schema.not)) {
+		fail("must not match the schema of not");
+	}
+
+	return errors;
+}
@@ -3,7 +3,13 @@ import { validator } from "hono/validator";
 import { object, string } from "zod/v4-mini";
 import { FlagglyError } from "../error";
 import {
+	flagTargetsInputSchema,
+	holdoutSchema,
 	inputFeatureFlagSchema,
+	layerAllocation,
+	layerSchema,
+	listMembersSchema,
+	listSchema,
 	segmentInputSchema,
 	syncInputSchema,
 	updateableFeatureFlagSchema,
@@ -105,6 +111,61 @@ admin.patch(
 	},
 );
 
+const targetsValidator = validator("json", (value, c) => {
+	const parsed = flagTargetsInputSchema.safeParse(value);
+
+	if (!parsed.success) {
+		const error = new FlagglyError(
+			"Invalid targets input",
+			"INVALID_BODY",
+			parsed.error.issues,
+		);
+		return c.json(error, error.statusCode);
+	}
+
+	return parsed.data;
+});
+
+admin.post("/flags/:id/targets", paramValidator, targetsValidator, async (c) => {
+	const { id } = c.req.valid("param");
+	const targets = c.req.valid("json");
+
+	const [data, error] = await c.var.kv.addFlagTargets({ id, targets });
+
+	return error ? c.json(error, error.statusCode) : c.json(data, 200);
+});
+
+admin.delete(
+	"/flags/:id/targets",
+	paramValidator,
+	targetsValidator,
+	async (c) => {
+		const { id } = c.req.valid("param");
+		const targets = c.req.valid("json");
+
+		const [data, error] = await c.var.kv.removeFlagTargets({ id, targets });
+
+		return error ? c.json(error, error.statusCode) : c.json(data, 200);
+	},
+);
+
+// JSON Schema of the flag's payloads, for editors and type generators
+admin.get("/flags/:id/schema", paramValidator, async (c) => {
+	const { id } = c.req.valid("param");
+
+	const [data, error] = await c.var.kv.getPayloadSchema({ id });
+
+	return error ? c.json(error, error.statusCode) : c.json(data, 200);
+});
+
+admin.post("/flags/:id/randomize", paramValidator, async (c) => {
+	const { id } = c.req.valid("param");
+
+	const [data, error] = await c.var.kv.randomizeFlag({ id });
+
+	return error ? c.json(error, error.statusCode) : c.json(data, 200);
+});
+
 admin.delete("/flags/:id", paramValidator, async (c) => {
 	const { id } = c.req.valid("param");
 
@@ -151,6 +212,182 @@ admin.delete("/segments/:id", paramValidator, async (c) => {
 	return error ? c.json(error, error.statusCode) : c.json(data, 200);
 });
 
+admin.put(
+	"/layers",
+	validator("json", (value, c) => {
+		const parsed = layerSchema.safeParse(value);
+
+		if (!parsed.success) {
+			const error = new FlagglyError(
+				"Invalid layer input",
+				"INVALID_BODY",
+				parsed.error.issues,
+			);
+			return c.json(error, error.statusCode);
+		}
+
+		return parsed.data;
+	}),
+	async (c) => {
+		const layer = c.req.valid("json");
+
+		const [data, error] = await c.var.kv.putLayer({ layer });
+
+		return error ? c.json(error, error.statusCode) : c.json(data, 200);
+	},
+);
+
+admin.post(
+	"/layers/:id/allocations",
+	paramValidator,
+	validator("json", (value, c) => {
+		const parsed = layerAllocation.safeParse(value);
+
+		if (!parsed.success) {
+			const error = new FlagglyError(
+				"Invalid allocation input",
+				"INVALID_BODY",
+				parsed.error.issues,
+			);
+			return c.json(error, error.statusCode);
+		}
+
+		return parsed.data;
+	}),
+	async (c) => {
+		const { id } = c.req.valid("param");
+		const allocation = c.req.valid("json");
+
+		const [data, error] = await c.var.kv.allocateLayerFlag({ id, allocation });
+
+		return error ? c.json(error, error.statusCode) : c.json(data, 200);
+	},
+);
+
+admin.delete("/layers/:id", paramValidator, async (c) => {
+	const { id } = c.req.valid("param");
+
+	const [data, error] = await c.var.kv.deleteLayer({ id });
+
+	return error ? c.json(error, error.statusCode) : c.json(data, 200);
+});
+
+const listMembersValidator = validator("json", (value, c) => {
+	const parsed = listMembersSchema.safeParse(value);
+
+	if (!parsed.success) {
+		const error = new FlagglyError(
+			"Invalid list members input",
+			"INVALID_BODY",
+			parsed.error.issues,
+		);
+		return c.json(error, error.statusCode);
+	}
+
+	return parsed.data;
+});
+
+admin.put(
+	"/lists",
+	validator("json", (value, c) => {
+		const parsed = listSchema.safeParse(value);
+
+		if (!parsed.success) {
+			const error = new FlagglyError(
+				"Invalid list input",
+				"INVALID_BODY",
+				parsed.error.issues,
+			);
+			return c.json(error, error.statusCode);
+		}
+
+		return parsed.data;
+	}),
+	async (c) => {
+		const list = c.req.valid("json");
+
+		const [data, error] = await c.var.kv.putList({ list });
+
+		return error ? c.json(error, error.statusCode) : c.json(data, 200);
+	},
+);
+
+admin.post(
+	"/lists/:id/members",
+	paramValidator,
+	listMembersValidator,
+	async (c) => {
+		const { id } = c.req.valid("param");
+		const { ids } = c.req.valid("json");
+
+		const [data, error] = await c.var.kv.addListMembers({ id, ids });
+
+		return error ? c.json(error, error.statusCode) : c.json(data, 200);
+	},
+);
+
+// Replaces every member, for bulk uploads
+admin.put(
+	"/lists/:id/members",
+	paramValidator,
+	listMembersValidator,
+	async (c) => {
+		const { id } = c.req.valid("param");
+		const { ids } = c.req.valid("json");
+
+		const [data, error] = await c.var.kv.replaceListMembers({ id, ids });
+
+		return error ? c.json(error, error.statusCode) : c.json(data, 200);
+	},
+);
+
+admin.delete(
+	"/lists/:id/members",
+	paramValidator,
+	listMembersValidator,
+	async (c) => {
+		const { id } = c.req.valid("param");
+		const { ids } = c.req.valid("json");
+
+		const [data, error] = await c.var.kv.removeListMembers({ id, ids });
+
+		return error ? c.json(error, error.statusCode) : c.json(data, 200);
+	},
+);
+
+admin.delete("/lists/:id", paramValidator, async (c) => {
+	const { id } = c.req.valid("param");
+
+	const [data, error] = await c.var.kv.deleteList({ id });
+
+	return error ? c.json(error, error.statusCode) : c.json(data, 200);
+});
+
+admin.put(
+	"/holdout",
+	validator("json", (value, c) => {
+		const parsed = holdoutSchema.safeParse(value);
+
+		if (!parsed.success) {
+			const error = new FlagglyError(
+				"Invalid holdout input",
+				"INVALID_BODY",
+				parsed.error.issues,
+			);
+			return c.json(error, error.statusCode);
+		}
+
+		return parsed.data;
+	}),
+	async (c) => {
+		const holdout = c.req.valid("json");
+
+		const [data, error] = await c.var.kv.putHoldout({ holdout });
+
+		return error ? c.json(error, error.statusCode) : c.json(data, 200);
+	},
+);
+
 admin.post(
 	"/sync",
 	validator("json", (value, c) => {
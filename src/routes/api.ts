@@ -2,13 +2,70 @@ import { jwt } from "hono/jwt";
 import { validator } from "hono/validator";
 import { omit } from "zod/v4-mini";
 
-import { evaluateFlag } from "../engine";
+import { evaluateFlag, getEvaluationPlan } from "../engine";
 import { FlagglyError } from "../error";
-import { evaluateInputSchema, paramSchema, requestGeoSchema } from "../schema";
+import { parseIp } from "../ip";
+import {
+	type EvaluationReason,
+	evaluateInputSchema,
+	paramSchema,
+	requestGeoSchema,
+} from "../schema";
 import { createApp } from "./_app";
 
 export const api = createApp();
 
+/**
+ * Log a flag that failed to evaluate with its cause
+ * The counts per flag come from the analytics data points, which flag failures with a double
+ */
+const logEvaluationError = ({
+	app,
+	env,
+	flagKey,
+	reason,
+}: {
+	app: string;
+	env: string;
+	flagKey: string;
+	reason: EvaluationReason;
+}) => {
+	if (reason.kind !== "ERROR") {
+		return;
+	}
+
+	console.error({
+		message: "Flag evaluation failed",
+		app,
+		env,
+		flag: flagKey,
+		error: reason.errorMessage,
+	});
+};
+
+/**
+ * Client IP address of the request. A proxy in front of the worker can pass the
+ * original client IP in the `TRUSTED_IP_HEADER` header, which wins over `CF-Connecting-IP`
+ */
+const getClientIp = ({
+	headers,
+	trustedHeader,
+}: {
+	headers: Headers;
+	trustedHeader?: string;
+}): string | undefined => {
+	// X-Forwarded-For style headers list the client first
+	const trusted = trustedHeader
+		? headers.get(trustedHeader)?.split(",")[0]?.trim()
+		: undefined;
+
+	if (parseIp(trusted)) {
+		return trusted;
+	}
+
+	return headers.get("cf-connecting-ip") ?? undefined;
+};
+
 api.use((c, next) =>
 	jwt({
 		secret: c.env.JWT_SECRET,
@@ -19,7 +76,10 @@ api.use((c, next) =>
 );
 
 const inputValidator = validator("json", (value, c) => {
-	const parsed = omit(evaluateInputSchema, { request: true }).safeParse(value);
+	const parsed = omit(evaluateInputSchema, {
+		request: true,
+		ip: true,
+	}).safeParse(value);
 
 	if (!parsed.success) {
 		const error = new FlagglyError(
@@ -54,9 +114,24 @@ api.post(
 		const params = c.req.valid("json");
 
 		const headers = Object.fromEntries(c.req.raw.headers.entries());
+		const ip = getClientIp({
+			headers: c.req.raw.headers,
+			trustedHeader: c.env.TRUSTED_IP_HEADER,
+		});
 		const geo = requestGeoSchema.parse(c.req.raw.cf);
 
-		const data = await c.var.kv.getData();
+		const isDetail = c.req.query("detail") === "true";
+
+		const { data, version } = await c.var.kv.getVersionedData();
+		const plan = getEvaluationPlan({
+			key: c.var.kv.cacheKeys.all(),
+			version,
+			data,
+		});
+		const lists = await c.var.kv.getListMembers({
+			lists: data.lists,
+			ids: plan.lists,
+		});
 
 		const flagResult: Record<string, unknown> = {};
 		const analyticsPoints: AnalyticsEngineDataPoint[] = [];
@@ -64,11 +139,17 @@ api.post(
 		const baseKey = c.var.kv.cacheKeys.all();
 
 		for (const [flagKey, flag] of Object.entries(data.flags)) {
-			const { result, isEval } = evaluateFlag({
+			const { result, isEval, reason, variation } = evaluateFlag({
 				flag,
 				segments: data.segments,
+				flags: data.flags,
+				layers: data.layers,
+				holdout: data.holdout,
+				plan,
+				lists,
 				input: {
 					id: params.id,
+					ip,
 					user: params.user,
 					page: params.page,
 					geo,
@@ -78,15 +159,30 @@ api.post(
 				},
 			});
 
-			flagResult[flagKey] = {
-				type: flag.type,
-				result: result,
-			};
+			logEvaluationError({
+				app: c.var.kv.app,
+				env: c.var.kv.env,
+				flagKey,
+				reason,
+			});
+
+			flagResult[flagKey] = isDetail
+				? {
+						type: flag.type,
+						result: result,
+						reason,
+						variation,
+					}
+				: {
+						type: flag.type,
+						result: result,
+					};
 
 			const index = `${baseKey}:${flagKey}`;
 
-			if (flag.isTrackable) {
-				analyticsPoints.push({
+			// Failures are recorded for every flag, so they can be counted per flag
+			if (flag.isTrackable || reason.kind === "ERROR") {
+				const point: AnalyticsEngineDataPoint = {
 					blobs: [
 						c.var.kv.app,
 						c.var.kv.env,
@@ -102,9 +198,17 @@ api.post(
 						flag.rules?.length ?? 0,
 						flag.segments?.length ?? 0,
 						flag.rollouts.length ?? 0,
+						reason.kind === "ERROR" ? 1 : 0,
 					],
 					indexes: [index],
-				});
+				};
+
+				// Failures go first, so the cap on data points never drops them
+				if (reason.kind === "ERROR") {
+					analyticsPoints.unshift(point);
+				} else {
+					analyticsPoints.push(point);
+				}
 			}
 		}
 
@@ -160,22 +264,44 @@ api.post(
 		const flagKey = params.id;
 
 		const headers = Object.fromEntries(c.req.raw.headers.entries());
+		const ip = getClientIp({
+			headers: c.req.raw.headers,
+			trustedHeader: c.env.TRUSTED_IP_HEADER,
+		});
 		const geo = requestGeoSchema.parse(c.req.raw.cf);
 
-		const data = await c.var.kv.getData();
+		const isDetail = c.req.query("detail") === "true";
+
+		const { data, version } = await c.var.kv.getVersionedData();
 
 		if (!(flagKey in data.flags)) {
 			const error = new FlagglyError("Flag not found", "NOT_FOUND");
 			return c.json(error, error.statusCode);
 		}
 
+		const plan = getEvaluationPlan({
+			key: c.var.kv.cacheKeys.all(),
+			version,
+			data,
+		});
+		const lists = await c.var.kv.getListMembers({
+			lists: data.lists,
+			ids: plan.lists,
+		});
+
 		const flag = data.flags[flagKey];
 
-		const { result, isEval } = evaluateFlag({
+		const { result, isEval, reason, variation } = evaluateFlag({
 			flag,
 			segments: data.segments,
+			flags: data.flags,
+			layers: data.layers,
+			holdout: data.holdout,
+			plan,
+			lists,
 			input: {
 				id: input.id,
+				ip,
 				user: input.user,
 				page: input.page,
 				geo,
@@ -185,7 +311,17 @@ api.post(
 			},
 		});
 
-		if (c.env.ENABLE_ANALYTICS === "true" && flag.isTrackable) {
+		logEvaluationError({
+			app: c.var.kv.app,
+			env: c.var.kv.env,
+			flagKey,
+			reason,
+		});
+
+		if (
+			c.env.ENABLE_ANALYTICS === "true" &&
+			(flag.isTrackable || reason.kind === "ERROR")
+		) {
 			const index = `${c.var.kv.cacheKeys.all()}:${flagKey}`;
 			c.env.FLAGGLY_ANALYTICS.writeDataPoint({
 				blobs: [
@@ -203,16 +339,24 @@ api.post(
 					flag.rules?.length ?? 0,
 					flag.segments?.length ?? 0,
 					flag.rollouts.length ?? 0,
+					reason.kind === "ERROR" ? 1 : 0,
 				],
 				indexes: [index],
 			});
 		}
 
 		return c.json(
-			{
-				type: flag.type,
-				result,
-			},
+			isDetail
+				? {
+						type: flag.type,
+						result,
+						reason,
+						variation,
+					}
+				: {
+						type: flag.type,
+						result,
+					},
 			200,
 		);
 	},
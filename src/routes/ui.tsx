@@ -1,8 +1,10 @@
 import { html } from "hono/html";
 import type { FC } from "hono/jsx";
-import type { AppData, FeatureFlagInputSchema } from "../schema";
+import { getRampPercentage } from "../engine";
+import type { AppData, FeatureFlagInputSchema, Ramp } from "../schema";
 import { inputFeatureFlagSchema, segmentInputSchema } from "../schema";
 import { buildUrl, Layout } from "../components/Layout";
+import type { FlagglyError } from "../error";
 import { createApp } from "./_app";
 
 export const ui = createApp();
@@ -14,6 +16,15 @@ const getString = ({ value }: { value: unknown }): string => {
 	return "";
 };
 
+// Expression errors carry the field they belong to, so forms can show them inline
+const getErrorParams = ({ error }: { error: FlagglyError }): string => {
+	const details = error.details as { field?: string } | undefined;
+	const field = details?.field
+		? `&errorField=${encodeURIComponent(details.field)}`
+		: "";
+	return `&error=${encodeURIComponent(error.message)}${field}`;
+};
+
 const getCtx = ({ c }: { c: { var: { kv: { app: string; env: string } } } }) => {
 	return { app: c.var.kv.app, env: c.var.kv.env };
 };
@@ -40,6 +51,18 @@ const FlashMessages: FC<FlashProps> = ({ success, error }) => (
 	</>
 );
 
+type FieldErrorProps = {
+	field: string;
+	errorField?: string;
+	error?: string;
+};
+
+// Shows an error next to the form field it belongs to, e.g. "rules" for "rules[1]"
+const FieldError: FC<FieldErrorProps> = ({ field, errorField, error }) =>
+	error && errorField?.startsWith(field) ? (
+		<p class="text-red-400 text-xs mt-1.5 font-mono">{error}</p>
+	) : null;
+
 type TypeBadgeProps = {
 	flagType: string;
 };
@@ -58,6 +81,46 @@ const TypeBadge: FC<TypeBadgeProps> = ({ flagType }) => {
 	);
 };
 
+type RampTimelineProps = {
+	ramp: Ramp;
+	now?: number;
+};
+
+// Preview of a ramp: its percentage at evenly spaced dates and how far along it is
+const RampTimeline: FC<RampTimelineProps> = ({ ramp, now = Date.now() }) => {
+	const start = new Date(ramp.start).getTime();
+	const end = new Date(ramp.end).getTime();
+	const progress = Math.min(Math.max((now - start) / (end - start), 0), 1);
+	const points = [0, 0.25, 0.5, 0.75, 1].map((fraction) => {
+		const time = start + (end - start) * fraction;
+		return {
+			date: new Date(time).toISOString().slice(0, 10),
+			percentage: getRampPercentage({ ramp, now: time }),
+		};
+	});
+
+	return (
+		<div class="mb-3">
+			<div class="h-1.5 bg-zinc-800 rounded overflow-hidden">
+				<div
+					class="h-full bg-blue-500/60"
+					style={`width:${(progress * 100).toFixed(1)}%`}
+				/>
+			</div>
+			<div class="flex justify-between text-xs text-zinc-600 mt-1 font-mono">
+				{points.map((point) => (
+					<span>
+						{point.date} · {Math.round(point.percentage)}%
+					</span>
+				))}
+			</div>
+			<p class="text-xs text-zinc-500 mt-1">
+				now: {getRampPercentage({ ramp, now }).toFixed(1)}%
+			</p>
+		</div>
+	);
+};
+
 type FlagCardProps = {
 	flag: FeatureFlagInputSchema;
 	app: string;
@@ -66,6 +129,16 @@ type FlagCardProps = {
 
 const FlagCard: FC<FlagCardProps> = ({ flag, app, env }) => {
 	const params = `?app=${encodeURIComponent(app)}&env=${encodeURIComponent(env)}`;
+	const isExpired =
+		flag.expiresAt !== undefined &&
+		new Date(flag.expiresAt).getTime() <= Date.now();
+	// Buckets of partial variant flags that get the off variation
+	const unallocated =
+		flag.type === "variant"
+			? Math.round(
+					(100 - flag.variations.reduce((sum, v) => sum + v.weight, 0)) * 10,
+				) / 10
+			: 0;
 	return (
 		<div class="bg-zinc-900 border border-zinc-800 rounded-md p-4">
 			<div class="flex items-center justify-between mb-2">
@@ -79,6 +152,16 @@ const FlagCard: FC<FlagCardProps> = ({ flag, app, env }) => {
 							tracked
 						</span>
 					)}
+					{flag.isExperiment && (
+						<span class="text-xs px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-500">
+							experiment
+						</span>
+					)}
+					{isExpired && (
+						<span class="text-xs px-1.5 py-0.5 rounded bg-red-950/30 text-red-400">
+							expired
+						</span>
+					)}
 				</div>
 				<div class="flex items-center gap-2">
 					<form
@@ -111,7 +194,17 @@ const FlagCard: FC<FlagCardProps> = ({ flag, app, env }) => {
 				</div>
 			)}
 			<div class="flex items-center gap-3 text-xs text-zinc-500 mb-3">
-				<span>rollout: {flag.rollout}%</span>
+				{flag.ramp ? (
+					<span>
+						ramp: {flag.ramp.from}% → {flag.ramp.to}%
+					</span>
+				) : (
+					<span>rollout: {flag.rollout}%</span>
+				)}
+				{flag.bucketBy && <span>bucket: {flag.bucketBy}</span>}
+				{flag.expiresAt && !isExpired && (
+					<span>expires: {new Date(flag.expiresAt).toISOString()}</span>
+				)}
 				{flag.rules.length > 0 && (
 					<span>
 						{flag.rules.length}{" "}
@@ -124,10 +217,52 @@ const FlagCard: FC<FlagCardProps> = ({ flag, app, env }) => {
 						{flag.segments.length === 1 ? "segment" : "segments"}
 					</span>
 				)}
+				{flag.include && flag.include.length > 0 && (
+					<span>{flag.include.length} included</span>
+				)}
+				{flag.exclude && flag.exclude.length > 0 && (
+					<span>{flag.exclude.length} excluded</span>
+				)}
+				{flag.prerequisites && flag.prerequisites.length > 0 && (
+					<span>
+						requires{" "}
+						{flag.prerequisites
+							.map((prerequisite) => prerequisite.flag)
+							.join(", ")}
+					</span>
+				)}
+				{flag.schedule && flag.schedule.length > 0 && (
+					<span>
+						scheduled: {flag.schedule.length}{" "}
+						{flag.schedule.length === 1 ? "window" : "windows"}
+					</span>
+				)}
 				{flag.type === "variant" && "variations" in flag && (
 					<span>{flag.variations.length} variants</span>
 				)}
+				{unallocated > 0 && <span>{unallocated}% unallocated</span>}
+				{flag.type === "variant" &&
+					flag.targeting &&
+					flag.targeting.length > 0 && (
+						<span>
+							{flag.targeting.length}{" "}
+							{flag.targeting.length === 1
+								? "targeting rule"
+								: "targeting rules"}
+						</span>
+					)}
+				{flag.type === "variant" &&
+					flag.weightSchedule &&
+					flag.weightSchedule.length > 0 && (
+						<span>
+							{flag.weightSchedule.length}{" "}
+							{flag.weightSchedule.length === 1
+								? "scheduled weight set"
+								: "scheduled weight sets"}
+						</span>
+					)}
 			</div>
+			{flag.ramp && <RampTimeline ramp={flag.ramp} />}
 			<div class="flex items-center gap-2">
 				<a
 					href={`/app/flags/${encodeURIComponent(flag.id)}/edit${params}`}
@@ -135,6 +270,19 @@ const FlagCard: FC<FlagCardProps> = ({ flag, app, env }) => {
 				>
 					edit
 				</a>
+				<form
+					method="post"
+					action={`/app/flags/${encodeURIComponent(flag.id)}/randomize${params}`}
+					onsubmit="return confirm('Re-randomize this flag? Users will be reassigned to new buckets.')"
+					class="inline"
+				>
+					<button
+						type="submit"
+						class="text-xs bg-zinc-800 hover:bg-zinc-700 text-zinc-300 py-1 px-2.5 rounded transition-colors"
+					>
+						re-randomize
+					</button>
+				</form>
 				<form
 					method="post"
 					action={`/app/flags/${encodeURIComponent(flag.id)}/delete${params}`}
@@ -190,9 +338,17 @@ type FlagFormProps = {
 	app: string;
 	env: string;
 	error?: string;
+	errorField?: string;
 };
 
-const FlagForm: FC<FlagFormProps> = ({ flag, segments, app, env, error }) => {
+const FlagForm: FC<FlagFormProps> = ({
+	flag,
+	segments,
+	app,
+	env,
+	error,
+	errorField,
+}) => {
 	const isEditing = !!flag;
 	const title = isEditing ? `Edit: ${flag.id}` : "New Flag";
 	const action = isEditing
@@ -204,14 +360,38 @@ const FlagForm: FC<FlagFormProps> = ({ flag, segments, app, env, error }) => {
 	const flagRules = flag?.rules ?? [];
 	const flagType = flag?.type ?? "boolean";
 
+	const payloadSchemaValue =
+		flag && flag.type !== "boolean" && flag.payloadSchema
+			? JSON.stringify(flag.payloadSchema, null, 2)
+			: "";
+
 	let payloadValue = "";
+	let defaultPayloadValue = "";
 	if (flag && flag.type === "payload" && "payload" in flag) {
 		payloadValue = JSON.stringify(flag.payload, null, 2);
+		defaultPayloadValue =
+			flag.defaultPayload !== undefined
+				? JSON.stringify(flag.defaultPayload, null, 2)
+				: "";
 	}
 
 	let variationsValue = "";
+	let targetingValue = "";
+	let fallthroughValue = "";
+	let weightScheduleValue = "";
 	if (flag && flag.type === "variant" && "variations" in flag) {
 		variationsValue = JSON.stringify(flag.variations, null, 2);
+		targetingValue =
+			flag.targeting && flag.targeting.length > 0
+				? JSON.stringify(flag.targeting, null, 2)
+				: "";
+		fallthroughValue = flag.fallthrough
+			? JSON.stringify(flag.fallthrough, null, 2)
+			: "";
+		weightScheduleValue =
+			flag.weightSchedule && flag.weightSchedule.length > 0
+				? JSON.stringify(flag.weightSchedule, null, 2)
+				: "";
 	}
 
 	return (
@@ -231,7 +411,7 @@ const FlagForm: FC<FlagFormProps> = ({ flag, segments, app, env, error }) => {
 
 			<h1 class="text-xl font-bold mb-6">{title}</h1>
 
-			<FlashMessages error={error} />
+			<FlashMessages error={errorField ? undefined : error} />
 
 			<form method="post" action={action}>
 				<div class="space-y-4">
@@ -343,6 +523,21 @@ const FlagForm: FC<FlagFormProps> = ({ flag, segments, app, env, error }) => {
 								Trackable
 							</label>
 						</div>
+						<div class="flex items-center gap-2">
+							<input
+								type="checkbox"
+								name="isExperiment"
+								id="flag-experiment"
+								checked={flag?.isExperiment ?? false}
+								class="rounded border-zinc-700 bg-zinc-950"
+							/>
+							<label
+								for="flag-experiment"
+								class="text-sm text-zinc-400"
+							>
+								Experiment
+							</label>
+						</div>
 						<div class="flex items-center gap-2 ml-auto">
 							<label class="text-sm text-zinc-400">
 								Rollout %
@@ -352,12 +547,47 @@ const FlagForm: FC<FlagFormProps> = ({ flag, segments, app, env, error }) => {
 								name="rollout"
 								min={0}
 								max={100}
+								step="any"
 								value={flag?.rollout ?? 100}
 								class="w-20 bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors"
 							/>
 						</div>
 					</div>
 
+					{/* Bucket by */}
+					<div>
+						<label class="block text-sm text-zinc-400 mb-1.5">
+							Bucket by{" "}
+							<span class="text-zinc-600">(JEXL path used for rollouts and variations, defaults to the user ID)</span>
+						</label>
+						<input
+							type="text"
+							name="bucketBy"
+							value={flag?.bucketBy ?? ""}
+							class="w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors font-mono"
+							placeholder="user.orgId"
+						/>
+						<FieldError field="bucketBy" errorField={errorField} error={error} />
+						{flag?.salt && (
+							<input type="hidden" name="salt" value={flag.salt} />
+						)}
+					</div>
+
+					{/* Expiry */}
+					<div>
+						<label class="block text-sm text-zinc-400 mb-1.5">
+							Expires at{" "}
+							<span class="text-zinc-600">(ISO 8601 date, optional. The flag evaluates as disabled from this date)</span>
+						</label>
+						<input
+							type="text"
+							name="expiresAt"
+							value={flag?.expiresAt ?? ""}
+							class="w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors font-mono"
+							placeholder="2025-12-31T23:59:59Z"
+						/>
+					</div>
+
 					{/* Rules */}
 					<div>
 						<label class="block text-sm text-zinc-400 mb-1.5">
@@ -372,6 +602,39 @@ const FlagForm: FC<FlagFormProps> = ({ flag, segments, app, env, error }) => {
 						>
 							{flagRules.join("\n")}
 						</textarea>
+						<FieldError field="rules" errorField={errorField} error={error} />
+					</div>
+
+					{/* Individual targets */}
+					<div class="flex gap-4">
+						<div class="flex-1">
+							<label class="block text-sm text-zinc-400 mb-1.5">
+								Include IDs{" "}
+								<span class="text-zinc-600">(one per line, always served)</span>
+							</label>
+							<textarea
+								name="include"
+								rows={3}
+								class="w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors resize-y font-mono"
+								placeholder={"user-123\nuser-456"}
+							>
+								{(flag?.include ?? []).join("\n")}
+							</textarea>
+						</div>
+						<div class="flex-1">
+							<label class="block text-sm text-zinc-400 mb-1.5">
+								Exclude IDs{" "}
+								<span class="text-zinc-600">(one per line, never served)</span>
+							</label>
+							<textarea
+								name="exclude"
+								rows={3}
+								class="w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors resize-y font-mono"
+								placeholder={"user-789"}
+							>
+								{(flag?.exclude ?? []).join("\n")}
+							</textarea>
+						</div>
 					</div>
 
 					{/* Segments */}
@@ -411,7 +674,7 @@ const FlagForm: FC<FlagFormProps> = ({ flag, segments, app, env, error }) => {
 							name="rollouts"
 							rows={3}
 							class="w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors resize-y font-mono"
-							placeholder={'[\n  { "start": "2024-01-01T00:00:00Z", "percentage": 50 }\n]'}
+							placeholder={'[\n  { "start": "2024-01-01T00:00:00Z", "end": "2024-02-01T00:00:00Z", "percentage": 50 }\n]'}
 						>
 							{flag?.rollouts && flag.rollouts.length > 0
 								? JSON.stringify(flag.rollouts, null, 2)
@@ -419,6 +682,110 @@ const FlagForm: FC<FlagFormProps> = ({ flag, segments, app, env, error }) => {
 						</textarea>
 					</div>
 
+					{/* Ramp */}
+					<div>
+						<label class="block text-sm text-zinc-400 mb-1.5">
+							Ramp{" "}
+							<span class="text-zinc-600">(optional, replaces the rollout % with a percentage growing from the start to the end date)</span>
+						</label>
+						<div class="grid grid-cols-4 gap-2">
+							<input
+								type="text"
+								name="rampStart"
+								value={flag?.ramp?.start ?? ""}
+								class="bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors font-mono"
+								placeholder="Start: 2025-01-01T00:00:00Z"
+							/>
+							<input
+								type="text"
+								name="rampEnd"
+								value={flag?.ramp?.end ?? ""}
+								class="bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors font-mono"
+								placeholder="End: 2025-01-15T00:00:00Z"
+							/>
+							<input
+								type="number"
+								name="rampFrom"
+								min={0}
+								max={100}
+								step="any"
+								value={flag?.ramp?.from ?? ""}
+								class="bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors"
+								placeholder="From %"
+							/>
+							<input
+								type="number"
+								name="rampTo"
+								min={0}
+								max={100}
+								step="any"
+								value={flag?.ramp?.to ?? ""}
+								class="bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors"
+								placeholder="To %"
+							/>
+						</div>
+						{flag?.ramp && (
+							<div class="mt-2">
+								<RampTimeline ramp={flag.ramp} />
+							</div>
+						)}
+					</div>
+
+					{/* Prerequisites */}
+					<div>
+						<label class="block text-sm text-zinc-400 mb-1.5">
+							Prerequisites{" "}
+							<span class="text-zinc-600">(JSON array, optional)</span>
+						</label>
+						<textarea
+							name="prerequisites"
+							rows={3}
+							class="w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors resize-y font-mono"
+							placeholder={'[\n  { "flag": "new-checkout" },\n  { "flag": "checkout-test", "variation": "treatment" }\n]'}
+						>
+							{flag?.prerequisites && flag.prerequisites.length > 0
+								? JSON.stringify(flag.prerequisites, null, 2)
+								: ""}
+						</textarea>
+					</div>
+
+					{/* Schedule */}
+					<div>
+						<label class="block text-sm text-zinc-400 mb-1.5">
+							Schedule{" "}
+							<span class="text-zinc-600">(JSON array of windows, optional. Active in any window, days are 0 = Sunday to 6)</span>
+						</label>
+						<textarea
+							name="schedule"
+							rows={3}
+							class="w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors resize-y font-mono"
+							placeholder={'[\n  { "days": [1, 2, 3, 4, 5], "startTime": "09:00", "endTime": "17:00", "timezone": "Europe/Paris" },\n  { "start": "2025-11-28T00:00:00Z", "end": "2025-12-01T00:00:00Z" }\n]'}
+						>
+							{flag?.schedule && flag.schedule.length > 0
+								? JSON.stringify(flag.schedule, null, 2)
+								: ""}
+						</textarea>
+					</div>
+
+					{/* Payload schema, shared by payload and variant flags */}
+					<div
+						id="payload-schema-section"
+						style={flagType === "boolean" ? "display:none" : ""}
+					>
+						<label class="block text-sm text-zinc-400 mb-1.5">
+							Payload Schema{" "}
+							<span class="text-zinc-600">(JSON Schema, optional, every payload must match it)</span>
+						</label>
+						<textarea
+							name="payloadSchema"
+							rows={5}
+							class="w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors resize-y font-mono"
+							placeholder={'{\n  "type": "object",\n  "properties": { "timeout": { "type": "integer", "minimum": 0 } },\n  "required": ["timeout"]\n}'}
+						>
+							{payloadSchemaValue}
+						</textarea>
+					</div>
+
 					{/* Payload section */}
 					<div
 						id="payload-section"
@@ -436,6 +803,21 @@ const FlagForm: FC<FlagFormProps> = ({ flag, segments, app, env, error }) => {
 						>
 							{payloadValue}
 						</textarea>
+						<FieldError field="payload" errorField={errorField} error={error} />
+
+						<label class="block text-sm text-zinc-400 mb-1.5 mt-4">
+							Default Payload{" "}
+							<span class="text-zinc-600">(JSON, optional, served instead of null when the flag is off)</span>
+						</label>
+						<textarea
+							name="defaultPayload"
+							rows={3}
+							class="w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors resize-y font-mono"
+							placeholder={'{\n  "key": "safe value"\n}'}
+						>
+							{defaultPayloadValue}
+						</textarea>
+						<FieldError field="defaultPayload" errorField={errorField} error={error} />
 					</div>
 
 					{/* Variant section */}
@@ -455,6 +837,75 @@ const FlagForm: FC<FlagFormProps> = ({ flag, segments, app, env, error }) => {
 						>
 							{variationsValue}
 						</textarea>
+						<FieldError field="variations" errorField={errorField} error={error} />
+
+						<label class="block text-sm text-zinc-400 mb-1.5 mt-4">
+							Targeting Rules{" "}
+							<span class="text-zinc-600">(JSON array, ordered, first match wins)</span>
+						</label>
+						<textarea
+							name="targeting"
+							rows={6}
+							class="w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors resize-y font-mono"
+							placeholder={'[\n  { "condition": "user.tier == \'premium\'", "serve": { "variation": "treatment" } },\n  { "condition": "geo.country == \'US\'", "serve": { "split": [{ "variation": "control", "weight": 20 }, { "variation": "treatment", "weight": 80 }] } }\n]'}
+						>
+							{targetingValue}
+						</textarea>
+						<FieldError field="targeting" errorField={errorField} error={error} />
+
+						<label class="block text-sm text-zinc-400 mb-1.5 mt-4">
+							Fallthrough{" "}
+							<span class="text-zinc-600">(JSON, optional, served when no rule matches)</span>
+						</label>
+						<textarea
+							name="fallthrough"
+							rows={3}
+							class="w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors resize-y font-mono"
+							placeholder={'{ "variation": "control" }'}
+						>
+							{fallthroughValue}
+						</textarea>
+
+						<label class="block text-sm text-zinc-400 mb-1.5 mt-4">
+							Weight Schedule{" "}
+							<span class="text-zinc-600">(JSON array, optional, replaces the variation weights from each start)</span>
+						</label>
+						<textarea
+							name="weightSchedule"
+							rows={3}
+							class="w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors resize-y font-mono"
+							placeholder={'[\n  { "start": "2025-01-01T00:00:00Z", "weights": { "control": 70, "treatment": 30 } },\n  { "start": "2025-01-08T00:00:00Z", "weights": { "control": 50, "treatment": 50 } }\n]'}
+						>
+							{weightScheduleValue}
+						</textarea>
+
+						<label class="block text-sm text-zinc-400 mb-1.5 mt-4">
+							Off Variation{" "}
+							<span class="text-zinc-600">(optional, served instead of the first variation when the flag is off)</span>
+						</label>
+						<input
+							type="text"
+							name="offVariation"
+							value={
+								flag?.type === "variant" ? (flag.offVariation ?? "") : ""
+							}
+							class="w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors font-mono"
+							placeholder="control"
+						/>
+
+						<div class="flex items-center gap-2 mt-4">
+							<input
+								type="checkbox"
+								name="isPartial"
+								id="flag-partial"
+								checked={flag?.type === "variant" && (flag.isPartial ?? false)}
+								class="rounded border-zinc-700 bg-zinc-950"
+							/>
+							<label for="flag-partial" class="text-sm text-zinc-400">
+								Partial allocation{" "}
+								<span class="text-zinc-600">(weights may add up to less than 100, the rest gets the off variation)</span>
+							</label>
+						</div>
 					</div>
 
 					<button
@@ -475,6 +926,8 @@ const FlagForm: FC<FlagFormProps> = ({ flag, segments, app, env, error }) => {
 							type === "payload" ? "" : "none";
 						document.getElementById("variant-section").style.display =
 							type === "variant" ? "" : "none";
+						document.getElementById("payload-schema-section").style.display =
+							type === "boolean" ? "none" : "";
 					});
 			</script>`}
 		</Layout>
@@ -485,9 +938,10 @@ type SegmentFormProps = {
 	app: string;
 	env: string;
 	error?: string;
+	errorField?: string;
 };
 
-const SegmentForm: FC<SegmentFormProps> = ({ app, env, error }) => {
+const SegmentForm: FC<SegmentFormProps> = ({ app, env, error, errorField }) => {
 	return (
 		<Layout
 			title="New Segment -- flaggly"
@@ -505,7 +959,7 @@ const SegmentForm: FC<SegmentFormProps> = ({ app, env, error }) => {
 
 			<h1 class="text-xl font-bold mb-6">New Segment</h1>
 
-			<FlashMessages error={error} />
+			<FlashMessages error={errorField ? undefined : error} />
 
 			<form
 				method="post"
@@ -527,7 +981,7 @@ const SegmentForm: FC<SegmentFormProps> = ({ app, env, error }) => {
 					<div>
 						<label class="block text-sm text-zinc-400 mb-1.5">
 							Rule{" "}
-							<span class="text-zinc-600">(JEXL expression)</span>
+							<span class="text-zinc-600">(JEXL expression, use segment('key') to build on other segments and inList('key', user.id) for lists)</span>
 						</label>
 						<input
 							type="text"
@@ -536,6 +990,7 @@ const SegmentForm: FC<SegmentFormProps> = ({ app, env, error }) => {
 							class="w-full bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-blue-500 transition-colors font-mono"
 							placeholder="'@company.com' in user.email"
 						/>
+						<FieldError field="rule" errorField={errorField} error={error} />
 					</div>
 					<button
 						type="submit"
@@ -668,6 +1123,7 @@ ui.get("/flags/new", async (c) => {
 	const { app, env } = getCtx({ c });
 	const data = await c.var.kv.getData();
 	const error = c.req.query("error");
+	const errorField = c.req.query("errorField");
 
 	return c.html(
 		<FlagForm
@@ -675,6 +1131,7 @@ ui.get("/flags/new", async (c) => {
 			app={app}
 			env={env}
 			error={error}
+			errorField={errorField}
 		/>,
 	);
 });
@@ -686,6 +1143,7 @@ ui.get("/flags/:id/edit", async (c) => {
 	const data = await c.var.kv.getData();
 	const flag = data.flags[flagId];
 	const error = c.req.query("error");
+	const errorField = c.req.query("errorField");
 
 	if (!flag) {
 		return c.redirect(
@@ -701,6 +1159,7 @@ ui.get("/flags/:id/edit", async (c) => {
 			app={app}
 			env={env}
 			error={error}
+			errorField={errorField}
 		/>,
 	);
 });
@@ -727,7 +1186,7 @@ ui.post("/flags", async (c) => {
 		if (error) {
 			return c.redirect(
 				buildUrl({ path: "/app/flags/new", app, env }) +
-					`&error=${encodeURIComponent(error.message)}`,
+					getErrorParams({ error }),
 			);
 		}
 
@@ -769,7 +1228,7 @@ ui.post("/flags/:id", async (c) => {
 		if (error) {
 			return c.redirect(
 				buildUrl({ path: `/app/flags/${encodeURIComponent(flagId)}/edit`, app, env }) +
-					`&error=${encodeURIComponent(error.message)}`,
+					getErrorParams({ error }),
 			);
 		}
 
@@ -817,6 +1276,25 @@ ui.post("/flags/:id/toggle", async (c) => {
 	);
 });
 
+// Re-randomize flag buckets
+ui.post("/flags/:id/randomize", async (c) => {
+	const { app, env } = getCtx({ c });
+	const flagId = c.req.param("id");
+	const dashUrl = buildUrl({ path: "/app", app, env });
+
+	const [, error] = await c.var.kv.randomizeFlag({ id: flagId });
+
+	if (error) {
+		return c.redirect(
+			`${dashUrl}&error=${encodeURIComponent(error.message)}`,
+		);
+	}
+
+	return c.redirect(
+		`${dashUrl}&success=${encodeURIComponent(`Flag "${flagId}" re-randomized.`)}`,
+	);
+});
+
 // Delete flag
 ui.post("/flags/:id/delete", async (c) => {
 	const { app, env } = getCtx({ c });
@@ -840,8 +1318,11 @@ ui.post("/flags/:id/delete", async (c) => {
 ui.get("/segments/new", async (c) => {
 	const { app, env } = getCtx({ c });
 	const error = c.req.query("error");
+	const errorField = c.req.query("errorField");
 
-	return c.html(<SegmentForm app={app} env={env} error={error} />);
+	return c.html(
+		<SegmentForm app={app} env={env} error={error} errorField={errorField} />,
+	);
 });
 
 // Create segment handler
@@ -871,7 +1352,7 @@ ui.post("/segments", async (c) => {
 	if (error) {
 		return c.redirect(
 			buildUrl({ path: "/app/segments/new", app, env }) +
-				`&error=${encodeURIComponent(error.message)}`,
+				getErrorParams({ error }),
 		);
 	}
 
@@ -918,13 +1399,27 @@ const parseFlagForm = async ({ c }: ParseContext): Promise<Record<string, unknow
 	const description = getString({ value: body.description }).trim();
 	const isEnabled = body.enabled === "on";
 	const isTrackable = body.isTrackable === "on";
+	const isExperiment = body.isExperiment === "on";
 	const rollout = Number(getString({ value: body.rollout })) || 100;
+	const bucketBy = getString({ value: body.bucketBy }).trim();
+	const salt = getString({ value: body.salt }).trim();
+	const expiresAt = getString({ value: body.expiresAt }).trim();
 
 	const rulesRaw = getString({ value: body.rules }).trim();
 	const rules = rulesRaw
 		? rulesRaw.split("\n").map((r) => r.trim()).filter(Boolean)
 		: [];
 
+	const getLines = ({ value }: { value: unknown }) => {
+		const raw = getString({ value }).trim();
+		return raw
+			? raw.split("\n").map((line) => line.trim()).filter(Boolean)
+			: [];
+	};
+
+	const include = getLines({ value: body.include });
+	const exclude = getLines({ value: body.exclude });
+
 	// Segments can be a single string or array
 	let segments: string[] = [];
 	if (body.segments) {
@@ -944,6 +1439,37 @@ const parseFlagForm = async ({ c }: ParseContext): Promise<Record<string, unknow
 		rollouts = JSON.parse(rolloutsRaw);
 	}
 
+	// Prerequisites
+	let prerequisites: unknown[] | undefined;
+	const prerequisitesRaw = getString({ value: body.prerequisites }).trim();
+	if (prerequisitesRaw) {
+		prerequisites = JSON.parse(prerequisitesRaw);
+	}
+
+	// Ramp, set when any of its fields is filled in
+	let ramp: Record<string, unknown> | undefined;
+	const rampFields = {
+		start: getString({ value: body.rampStart }).trim(),
+		end: getString({ value: body.rampEnd }).trim(),
+		from: getString({ value: body.rampFrom }).trim(),
+		to: getString({ value: body.rampTo }).trim(),
+	};
+	if (Object.values(rampFields).some(Boolean)) {
+		ramp = {
+			start: rampFields.start,
+			end: rampFields.end,
+			from: rampFields.from ? Number(rampFields.from) : undefined,
+			to: rampFields.to ? Number(rampFields.to) : undefined,
+		};
+	}
+
+	// Schedule windows
+	let schedule: unknown[] | undefined;
+	const scheduleRaw = getString({ value: body.schedule }).trim();
+	if (scheduleRaw) {
+		schedule = JSON.parse(scheduleRaw);
+	}
+
 	const flag: Record<string, unknown> = {
 		id,
 		type,
@@ -951,20 +1477,56 @@ const parseFlagForm = async ({ c }: ParseContext): Promise<Record<string, unknow
 		description: description || undefined,
 		enabled: isEnabled,
 		isTrackable,
+		isExperiment,
 		rollout,
 		rules,
 		segments,
 		rollouts,
+		ramp,
+		prerequisites,
+		schedule,
+		expiresAt: expiresAt || undefined,
+		bucketBy: bucketBy || undefined,
+		salt: salt || undefined,
+		include: include.length > 0 ? include : undefined,
+		exclude: exclude.length > 0 ? exclude : undefined,
 	};
 
+	if (type === "payload" || type === "variant") {
+		const payloadSchemaRaw = getString({ value: body.payloadSchema }).trim();
+		flag.payloadSchema = payloadSchemaRaw
+			? JSON.parse(payloadSchemaRaw)
+			: undefined;
+	}
+
 	if (type === "payload") {
 		const payloadRaw = getString({ value: body.payload }).trim();
 		flag.payload = payloadRaw ? JSON.parse(payloadRaw) : undefined;
+
+		const defaultPayloadRaw = getString({ value: body.defaultPayload }).trim();
+		flag.defaultPayload = defaultPayloadRaw
+			? JSON.parse(defaultPayloadRaw)
+			: undefined;
 	}
 
 	if (type === "variant") {
 		const variationsRaw = getString({ value: body.variations }).trim();
 		flag.variations = variationsRaw ? JSON.parse(variationsRaw) : undefined;
+
+		const targetingRaw = getString({ value: body.targeting }).trim();
+		flag.targeting = targetingRaw ? JSON.parse(targetingRaw) : undefined;
+
+		const fallthroughRaw = getString({ value: body.fallthrough }).trim();
+		flag.fallthrough = fallthroughRaw ? JSON.parse(fallthroughRaw) : undefined;
+
+		const weightScheduleRaw = getString({ value: body.weightSchedule }).trim();
+		flag.weightSchedule = weightScheduleRaw
+			? JSON.parse(weightScheduleRaw)
+			: undefined;
+
+		flag.offVariation =
+			getString({ value: body.offVariation }).trim() || undefined;
+		flag.isPartial = body.isPartial === "on" || undefined;
 	}
 
 	return flag;
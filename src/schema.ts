@@ -5,8 +5,10 @@ import {
 	array,
 	boolean,
 	discriminatedUnion,
+	int,
 	type infer as Infer,
 	literal,
+	maxLength,
 	maximum,
 	minimum,
 	minLength,
@@ -16,14 +18,20 @@ import {
 	optional,
 	record,
 	refine,
+	regex,
 	string,
 	unknown,
 } from "zod/v4-mini";
+import { findJsonSchemaError } from "./json-schema";
 
 export const flagRule = string().check(
 	minLength(1, { error: "JEXL rule is required" }),
 );
 
+export const bucketByPath = string().check(
+	minLength(1, { error: "Bucket attribute path is required" }),
+);
+
 export const DEFAULT_ENV = ["production", "staging", "development"];
 
 export const envSchema = object({
@@ -63,10 +71,23 @@ export const featureFlagVariationSchema = object({
 	label: optional(string()),
 	weight: number().check(minimum(0), maximum(100)),
 	payload: optional(unknown()),
+	include: optional(array(string())), // User IDs always served this variation
 });
 
+export const isoDate = string().check(
+	refine((value) => !Number.isNaN(new Date(value).getTime()), {
+		error: "Dates must be ISO 8601 date strings",
+	}),
+);
+
+const isAfter = (start?: string, end?: string) =>
+	start === undefined ||
+	end === undefined ||
+	new Date(end).getTime() > new Date(start).getTime();
+
 export const rolloutStep = object({
 	start: string(), // ISO 8601 date string
+	end: optional(isoDate), // The step stops matching from this date
 	percentage: optional(number().check(minimum(0), maximum(100))),
 	segment: optional(string()),
 }).check(
@@ -76,20 +97,194 @@ export const rolloutStep = object({
 			error: "Each rollout step must define either percentage or segment",
 		},
 	),
+	refine((step) => isAfter(step.start, step.end), {
+		error: "Rollout step end must be after its start",
+	}),
 );
 export type RolloutStep = Infer<typeof rolloutStep>;
 
+export const rampSchema = object({
+	start: isoDate, // The rollout is `from`% until this date
+	end: isoDate, // The rollout is `to`% from this date
+	from: number().check(minimum(0), maximum(100)),
+	to: number().check(minimum(0), maximum(100)),
+}).check(
+	refine((ramp) => isAfter(ramp.start, ramp.end), {
+		error: "Ramp end must be after its start",
+	}),
+);
+export type Ramp = Infer<typeof rampSchema>;
+
+export const weightScheduleEntry = object({
+	start: isoDate, // The weights apply from this date until the next entry starts
+	weights: record(string(), number().check(minimum(0), maximum(100))), // Variation ID to weight, missing variations get 0
+});
+export const weightSchedule = array(weightScheduleEntry);
+export type WeightSchedule = Infer<typeof weightSchedule>;
+
+export const variationSplit = object({
+	variation: string().check(minLength(1, { error: "Variation ID required" })),
+	weight: number().check(minimum(0), maximum(100)),
+});
+
+export const targetingServe = object({
+	variation: optional(string()), // Serve a fixed variation
+	split: optional(array(variationSplit)), // Or split users between variations by weight
+}).check(
+	refine(
+		(serve) => (serve.variation === undefined) !== (serve.split === undefined),
+		{
+			error: "Serve must define either a variation or a percentage split",
+		},
+	),
+);
+export type TargetingServe = Infer<typeof targetingServe>;
+
+export const targetingRule = object({
+	condition: flagRule,
+	serve: targetingServe,
+});
+export type TargetingRule = Infer<typeof targetingRule>;
+
+export const scheduleTime = string().check(
+	regex(/^([01]\d|2[0-3]):[0-5]\d$/, {
+		error: "Schedule times must use the 24-hour HH:MM format",
+	}),
+);
+
+export const timeZone = string().check(
+	refine(
+		(value) => {
+			try {
+				new Intl.DateTimeFormat("en-US", { timeZone: value });
+				return true;
+			} catch {
+				return false;
+			}
+		},
+		{ error: "Time zone must be an IANA time zone, e.g. Europe/Paris" },
+	),
+);
+
+export const scheduleWindow = object({
+	days: optional(array(int().check(minimum(0), maximum(6)))), // 0 = Sunday, every day when omitted
+	startTime: optional(scheduleTime), // Inclusive, defaults to 00:00
+	endTime: optional(scheduleTime), // Exclusive, defaults to 24:00, before startTime for overnight windows
+	timezone: optional(timeZone), // Defaults to the `geo.timezone` of the input, then UTC
+	start: optional(isoDate), // The window is closed before this date
+	end: optional(isoDate), // The window is closed from this date
+}).check(
+	refine((x) => isAfter(x.start, x.end), {
+		error: "Schedule end must be after its start",
+	}),
+	refine((x) => (x.startTime ?? "00:00") !== (x.endTime ?? "24:00"), {
+		// Also catches an endTime of 00:00 with the default startTime
+		error: "Schedule end time must differ from its start time",
+	}),
+);
+export type ScheduleWindow = Infer<typeof scheduleWindow>;
+
+export const flagPrerequisite = object({
+	flag: string().check(
+		minLength(1, { error: "Prerequisite flag key is required" }),
+	),
+	variation: optional(string()), // Required variation ID for variant flags
+});
+export type FlagPrerequisite = Infer<typeof flagPrerequisite>;
+
 export const baseFeatureFlag = {
-	id: string().check(minLength(1, { error: "Flag key is required" })),
+	id: string().check(
+		minLength(1, { error: "Flag key is required" }),
+		regex(/^[^/]+$/, { error: "Flag keys cannot contain '/'" }),
+	),
 	label: optional(string()),
 	description: optional(string()),
 	enabled: _default(optional(boolean()), false),
 	rules: _default(array(flagRule), []),
 	rollout: _default(number().check(minimum(0), maximum(100)), 100),
 	rollouts: _default(array(rolloutStep), []),
+	ramp: optional(rampSchema), // Replaces `rollout` with a percentage interpolated over time
+	prerequisites: optional(array(flagPrerequisite)),
+	schedule: optional(array(scheduleWindow)), // Active in any of the windows, always active when empty
+	expiresAt: optional(isoDate), // The flag evaluates as disabled from this date
+	include: optional(array(string())), // User IDs always served the flag
+	exclude: optional(array(string())), // User IDs never served the flag
+	bucketBy: optional(bucketByPath), // Defaults to the input `id`
+	salt: optional(string()), // Mixed into the hash to re-randomize buckets
 	isTrackable: _default(boolean(), false),
+	isExperiment: optional(boolean()), // Experiments are never served to the holdout group
 };
 
+/**
+ * Find weights that don't allocate every bucket: variations, weight sets and targeting splits
+ * must add up to 100, or at most 100 on partial flags
+ * @returns a description of the first invalid weights, or null if every weight set is valid
+ */
+export const getAllocationError = ({
+	variations = [],
+	weightSchedule = [],
+	targeting = [],
+	fallthrough,
+	isPartial,
+}: {
+	variations?: { id: string; weight: number }[];
+	weightSchedule?: WeightSchedule;
+	targeting?: TargetingRule[];
+	fallthrough?: TargetingServe;
+	isPartial?: boolean;
+}): string | null => {
+	const weightSets = [
+		{ name: "Variation weights", weights: variations.map((v) => v.weight) },
+		...weightSchedule.map((entry, index) => ({
+			name: `Weights of weightSchedule[${index}]`,
+			weights: Object.values(entry.weights),
+		})),
+		...[...targeting.map((rule) => rule.serve), fallthrough]
+			.flatMap((serve, index) =>
+				serve?.split
+					? [
+							{
+								name:
+									index < targeting.length
+										? `Split of targeting[${index}]`
+										: "Split of the fallthrough",
+								weights: serve.split.map((split) => split.weight),
+							},
+						]
+					: [],
+			),
+	];
+
+	for (const { name, weights } of weightSets) {
+		// Rounded so fractional weights like 33.3 + 33.3 + 33.4 add up
+		const total =
+			Math.round(weights.reduce((sum, w) => sum + w, 0) * 1e6) / 1e6;
+
+		if (total > 100) {
+			return `${name} add up to ${total}, more than 100`;
+		}
+		if (total < 100 && !isPartial) {
+			return `${name} add up to ${total}, set isPartial to leave the rest unallocated`;
+		}
+	}
+
+	return null;
+};
+
+/**
+ * JSON Schema every payload of a flag must match
+ */
+export const payloadSchema = record(string(), unknown()).check(
+	refine((schema) => findJsonSchemaError(schema) === null, {
+		error: (issue) =>
+			`Payload schema must be a valid JSON Schema: ${findJsonSchemaError(issue.input)}`,
+	}),
+);
+
+// Rollout steps take precedence, so a ramp next to them would never apply
+export const RAMP_WITH_ROLLOUTS_ERROR =
+	"A ramp cannot be combined with rollout steps, remove one of them";
+
 export const inputFeatureFlag = {
 	...baseFeatureFlag,
 	segments: _default(array(string()), []),
@@ -104,6 +299,8 @@ export const payloadFeatureFlag = object({
 	...inputFeatureFlag,
 	type: literal("payload"),
 	payload: unknown(),
+	defaultPayload: optional(unknown()), // Served instead of null when the flag is off for the user
+	payloadSchema: optional(payloadSchema), // Validates `payload` and `defaultPayload` when saved
 });
 
 export const variantFeatureFlag = object({
@@ -112,6 +309,12 @@ export const variantFeatureFlag = object({
 	variations: array(featureFlagVariationSchema).check(
 		minLength(2, "At least must have 2 variants"),
 	),
+	targeting: optional(array(targetingRule)), // Ordered, first matching condition wins
+	fallthrough: optional(targetingServe), // Served when no targeting rule matches
+	weightSchedule: optional(weightSchedule), // Weight sets replacing the variation weights over time
+	offVariation: optional(string()), // Served instead of the first variation when the flag is off for the user
+	isPartial: optional(boolean()), // Allows weights adding up to less than 100, unallocated users get the off value
+	payloadSchema: optional(payloadSchema), // Validates the variation payloads when saved
 });
 
 export const inputFeatureFlagSchema = discriminatedUnion("type", [
@@ -136,13 +339,77 @@ export const inputFeatureFlagSchema = discriminatedUnion("type", [
 	refine((x) => !(x.type === "variant" && x.variations === undefined), {
 		error: "Variant flags must have at least 2 variations",
 	}),
+	refine((x) => x.type !== "variant" || getAllocationError(x) === null, {
+		error:
+			"Weights must add up to 100, or at most 100 with isPartial set to leave the rest unallocated",
+	}),
+	refine((x) => !(x.ramp !== undefined && x.rollouts.length > 0), {
+		error: RAMP_WITH_ROLLOUTS_ERROR,
+	}),
 );
 
 export type FeatureFlagInputSchema = Infer<typeof inputFeatureFlagSchema>;
 
+export const layerAllocation = object({
+	flag: string().check(minLength(1, { error: "Flag key is required" })),
+	start: number().check(minimum(0), maximum(100)), // Exclusive lower bound of the layer buckets
+	end: number().check(minimum(0), maximum(100)), // Inclusive upper bound of the layer buckets
+}).check(
+	refine((x) => x.end > x.start, {
+		error: "Allocation end must be greater than its start",
+	}),
+);
+
+export type LayerAllocation = Infer<typeof layerAllocation>;
+
+export const layerSchema = object({
+	id: string().check(minLength(1, { error: "Layer ID is required" })),
+	label: optional(string()),
+	allocations: _default(array(layerAllocation), []),
+});
+
+export type Layer = Infer<typeof layerSchema>;
+
+export const holdoutSchema = object({
+	percentage: number().check(minimum(0), maximum(100)),
+});
+
+export type Holdout = Infer<typeof holdoutSchema>;
+
+export const listSchema = object({
+	id: string().check(minLength(1, { error: "List ID is required" })),
+	label: optional(string()),
+});
+
+/**
+ * A list of IDs, its members are stored outside of the app data in sharded keys
+ */
+export type ListInputSchema = Infer<typeof listSchema>;
+
+export type List = ListInputSchema & {
+	shards: number;
+	size: number;
+	/**
+	 * Changes whenever the members change, keys the cached members
+	 */
+	version: string;
+	updatedAt: string;
+};
+
+export const listMembersSchema = object({
+	ids: array(
+		string().check(minLength(1, { error: "Member ID is required" })),
+	).check(maxLength(100_000, { error: "Upload at most 100000 IDs at once" })),
+});
+
+export type ListMembers = Infer<typeof listMembersSchema>;
+
 export type AppData = {
 	flags: Record<string, FeatureFlagInputSchema>;
 	segments: Record<string, string>;
+	layers?: Record<string, Layer>;
+	holdout?: Holdout;
+	lists?: Record<string, List>;
 };
 
 export type FeatureFlagOutputSchema = Omit<
@@ -164,14 +431,30 @@ export const updateableFeatureFlagSchema = object({
 	),
 	rollout: optional(number().check(minimum(0), maximum(100))),
 	rollouts: optional(array(rolloutStep)),
+	ramp: optional(rampSchema),
+	prerequisites: optional(array(flagPrerequisite)),
+	schedule: optional(array(scheduleWindow)),
+	expiresAt: optional(isoDate),
+	include: optional(array(string())),
+	exclude: optional(array(string())),
+	bucketBy: optional(bucketByPath),
+	salt: optional(string()),
 	type: optional(_enum(["boolean", "payload", "variant"])),
 	payload: optional(unknown()),
+	defaultPayload: optional(unknown()),
+	payloadSchema: optional(payloadSchema),
 	variations: optional(
 		array(featureFlagVariationSchema).check(
 			minLength(2, "Variant flags must have at least 2 variations"),
 		),
 	),
+	targeting: optional(array(targetingRule)),
+	fallthrough: optional(targetingServe),
+	weightSchedule: optional(weightSchedule),
+	offVariation: optional(string()),
+	isPartial: optional(boolean()),
 	isTrackable: optional(boolean()),
+	isExperiment: optional(boolean()),
 }).check(
 	refine(
 		(x) =>
@@ -189,12 +472,80 @@ export const updateableFeatureFlagSchema = object({
 	refine((x) => !(x.type === "variant" && x.variations === undefined), {
 		error: "Variant flags must have at least 2 variations",
 	}),
+	refine(
+		(x) =>
+			!(
+				x.type !== undefined &&
+				x.type !== "variant" &&
+				(x.targeting !== undefined || x.fallthrough !== undefined)
+			),
+		{
+			error: "Targeting rules are only supported on variant flags",
+		},
+	),
+	refine(
+		(x) =>
+			!(
+				x.type !== undefined &&
+				x.type !== "variant" &&
+				x.weightSchedule !== undefined
+			),
+		{
+			error: "Weight schedules are only supported on variant flags",
+		},
+	),
+	refine(
+		(x) =>
+			!(
+				x.type !== undefined &&
+				x.type !== "variant" &&
+				x.offVariation !== undefined
+			),
+		{
+			error: "Off variations are only supported on variant flags",
+		},
+	),
+	refine(
+		(x) =>
+			!(
+				x.type !== undefined &&
+				x.type !== "payload" &&
+				x.defaultPayload !== undefined
+			),
+		{
+			error: "Default payloads are only supported on payload flags",
+		},
+	),
+	refine((x) => !(x.type === "boolean" && x.payloadSchema !== undefined), {
+		error: "Payload schemas are only supported on payload and variant flags",
+	}),
+	refine((x) => !(x.ramp !== undefined && (x.rollouts ?? []).length > 0), {
+		error: RAMP_WITH_ROLLOUTS_ERROR,
+	}),
+	// Whether the flag is partial may only be known once merged with the stored flag
+	refine((x) => getAllocationError({ ...x, isPartial: true }) === null, {
+		error: "Weights must add up to at most 100",
+	}),
 );
 
 export type UpdatableFeatureFlagSchema = Infer<
 	typeof updateableFeatureFlagSchema
 >;
 
+export const flagTargetsInputSchema = object({
+	list: _enum(["include", "exclude"]),
+	ids: array(
+		string().check(minLength(1, { error: "User ID is required" })),
+	).check(minLength(1, { error: "At least one user ID is required" })),
+	variation: optional(string()), // Target a variation's include list instead of the flag's
+}).check(
+	refine((x) => !(x.list === "exclude" && x.variation !== undefined), {
+		error: "Variations only have include lists",
+	}),
+);
+
+export type FlagTargetsInputSchema = Infer<typeof flagTargetsInputSchema>;
+
 export const segmentInputSchema = object({
 	id: string().check(minLength(1, { error: "Segment key is required" })),
 	rule: flagRule,
@@ -252,6 +603,7 @@ export const requestGeoSchema = _catch(
 export const evaluateInputSchema = object({
 	user: optional(unknown()),
 	id: optional(string()),
+	ip: optional(string()),
 	request: object({
 		headers: record(string(), string()),
 	}),
@@ -263,22 +615,57 @@ export const evaluateInputSchema = object({
 
 export type FlagEvaluationInput = Infer<typeof evaluateInputSchema>;
 
+export const EVALUATION_REASONS = [
+	"DISABLED",
+	"EXPIRED",
+	"PREREQUISITE_FAILED",
+	"TARGET_MATCH",
+	"TARGET_EXCLUDED",
+	"HOLDOUT",
+	"SCHEDULE_MISMATCH",
+	"RULE_MISMATCH",
+	"SEGMENT_MISMATCH",
+	"LAYER_EXCLUDED",
+	"ROLLOUT_EXCLUDED",
+	"ROLLOUT_STEP_MATCHED",
+	"RULE_MATCH",
+	"FALLTHROUGH",
+	"UNALLOCATED",
+	"ERROR",
+] as const;
+
+export const evaluationReasonSchema = object({
+	kind: _enum(EVALUATION_REASONS),
+	stepIndex: optional(number()), // Index of the matched rollout step
+	ruleIndex: optional(number()), // Index of the matched targeting rule
+	prerequisite: optional(string()), // Key of the failed prerequisite flag
+	layer: optional(string()), // ID of the layer that excluded the user
+	errorMessage: optional(string()),
+});
+export type EvaluationReason = Infer<typeof evaluationReasonSchema>;
+
 const booleanFlagResult = object({
 	type: literal("boolean"),
 	result: boolean(),
 	isEval: boolean(),
+	reason: evaluationReasonSchema,
+	variation: optional(string()),
 });
 
 const payloadFlagResult = object({
 	type: literal("payload"),
 	result: unknown(),
 	isEval: boolean(),
+	reason: evaluationReasonSchema,
+	variation: optional(string()),
 });
 
 const variantFlagResult = object({
 	type: literal("variant"),
 	result: unknown(),
 	isEval: boolean(),
+	reason: evaluationReasonSchema,
+	variation: optional(string()),
 });
 
 export const evaluateOutputSchema = discriminatedUnion("type", [
@@ -0,0 +1,257 @@
+type Semver = {
+	major: number;
+	minor: number;
+	patch: number;
+	prerelease: (string | number)[];
+};
+
+const SEMVER_PATTERN =
+	/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a semantic version, missing minor and patch parts default to 0
+ * @param version - e.g. "1.10.0", "v2.1", "3.0.0-beta.1"
+ * @returns the parsed version, or null if it is not a version
+ */
+export function parseSemver(version: unknown): Semver | null {
+	if (typeof version !== "string" && typeof version !== "number") {
+		return null;
+	}
+
+	const match = String(version).trim().match(SEMVER_PATTERN);
+
+	if (!match) {
+		return null;
+	}
+
+	return {
+		major: Number(match[1]),
+		minor: Number(match[2] ?? 0),
+		patch: Number(match[3] ?? 0),
+		prerelease: match[4]
+			? match[4]
+					.split(".")
+					.map((part) => (/^\d+$/.test(part) ? Number(part) : part))
+			: [],
+	};
+}
+
+const comparePrerelease = (
+	a: Semver["prerelease"],
+	b: Semver["prerelease"],
+): number => {
+	// A release has a higher precedence than its prereleases
+	if (a.length === 0 || b.length === 0) {
+		return Math.sign(b.length - a.length);
+	}
+
+	for (let index = 0; index < Math.max(a.length, b.length); index++) {
+		const left = a[index];
+		const right = b[index];
+
+		if (left === undefined || right === undefined) {
+			return left === undefined ? -1 : 1;
+		}
+		if (left === right) {
+			continue;
+		}
+		// Numeric identifiers have a lower precedence than alphanumeric ones
+		if (typeof left !== typeof right) {
+			return typeof left === "number" ? -1 : 1;
+		}
+		return left < right ? -1 : 1;
+	}
+
+	return 0;
+};
+
+const compareParsed = (a: Semver, b: Semver): number =>
+	Math.sign(a.major - b.major) ||
+	Math.sign(a.minor - b.minor) ||
+	Math.sign(a.patch - b.patch) ||
+	comparePrerelease(a.prerelease, b.prerelease);
+
+/**
+ * Compare two semantic versions
+ * @returns -1, 0 or 1, or null if either value is not a version
+ */
+export function compareSemver(a: unknown, b: unknown): number | null {
+	const left = parseSemver(a);
+	const right = parseSemver(b);
+
+	if (!left || !right) {
+		return null;
+	}
+
+	return compareParsed(left, right);
+}
+
+type Comparator = { operator: string; version: Semver };
+
+const PARTIAL_PATTERN =
+	/^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(-[0-9A-Za-z.-]+)?$/;
+
+const isWildcard = (part?: string) =>
+	part === undefined || part === "x" || part === "X" || part === "*";
+
+/**
+ * Expand a partial version ("1.2", "1.x", "*") into the comparators it matches
+ */
+const parsePartial = (operator: string, partial: string): Comparator[] => {
+	if (partial === "" || isWildcard(partial)) {
+		return [];
+	}
+
+	const match = partial.match(PARTIAL_PATTERN);
+
+	if (!match) {
+		throw new Error(`Invalid version range: ${partial}`);
+	}
+
+	const [, majorPart, minorPart, patchPart, prerelease = ""] = match;
+	const major = Number(majorPart);
+	const version = (minor: number, patch: number, suffix = "") =>
+		parseSemver(`${major}.${minor}.${patch}${suffix}`);
+
+	if (isWildcard(minorPart)) {
+		return rangeOf(operator, version(0, 0), parseSemver(`${major + 1}.0.0`));
+	}
+
+	const minor = Number(minorPart);
+
+	if (isWildcard(patchPart)) {
+		return rangeOf(
+			operator,
+			version(minor, 0),
+			parseSemver(`${major}.${minor + 1}.0`),
+		);
+	}
+
+	return [{ operator, version: version(minor, Number(patchPart), prerelease) }];
+};
+
+/**
+ * Comparators of an operator applied to the range [lower, upper)
+ */
+const rangeOf = (
+	operator: string,
+	lower: Semver,
+	upper: Semver,
+): Comparator[] => {
+	switch (operator) {
+		case ">":
+			return [{ operator: ">=", version: upper }];
+		case "<=":
+			return [{ operator: "<", version: upper }];
+		case ">=":
+		case "<":
+			return [{ operator, version: lower }];
+		default:
+			return [
+				{ operator: ">=", version: lower },
+				{ operator: "<", version: upper },
+			];
+	}
+};
+
+/**
+ * Comparators of a caret (^1.2.3) or tilde (~1.2.3) range
+ */
+const parseShorthand = (operator: "^" | "~", partial: string): Comparator[] => {
+	const [lower] = parsePartial(
+		">=",
+		partial.replace(/(^|\.)[xX*](?=\.|$)/g, "$10"),
+	);
+
+	if (!lower) {
+		return [];
+	}
+
+	const { major, minor, patch } = lower.version;
+	const parts = partial.replace(/^v/, "").split(".");
+	const hasMinor = !isWildcard(parts[1]);
+
+	let upper: string;
+	if (operator === "~") {
+		upper = hasMinor ? `${major}.${minor + 1}.0` : `${major + 1}.0.0`;
+	} else if (major > 0 || !hasMinor) {
+		upper = `${major + 1}.0.0`;
+	} else if (minor > 0 || isWildcard(parts[2])) {
+		upper = `0.${minor + 1}.0`;
+	} else {
+		upper = `0.0.${patch + 1}`;
+	}
+
+	return [lower, { operator: "<", version: parseSemver(upper) }];
+};
+
+const parseComparatorSet = (set: string): Comparator[] => {
+	const hyphen = set.match(/^(\S+)\s+-\s+(\S+)$/);
+
+	if (hyphen) {
+		return [
+			...parsePartial(">=", hyphen[1]),
+			...parsePartial("<=", hyphen[2]),
+		];
+	}
+
+	return set
+		.replace(/(>=|<=|>|<|=|\^|~)\s+/g, "$1")
+		.split(/\s+/)
+		.filter(Boolean)
+		.flatMap((token) => {
+			const [, operator = "", partial] = token.match(
+				/^(>=|<=|>|<|=|\^|~)?(.*)$/,
+			);
+
+			if (operator === "^" || operator === "~") {
+				return parseShorthand(operator, partial);
+			}
+
+			return parsePartial(operator, partial);
+		});
+};
+
+const testComparator = (
+	version: Semver,
+	{ operator, version: bound }: Comparator,
+) => {
+	const order = compareParsed(version, bound);
+
+	switch (operator) {
+		case ">":
+			return order > 0;
+		case ">=":
+			return order >= 0;
+		case "<":
+			return order < 0;
+		case "<=":
+			return order <= 0;
+		default:
+			return order === 0;
+	}
+};
+
+/**
+ * Check if a version satisfies a range, using the npm range syntax
+ * (">=1.2.0 <2.0.0", "^1.2.0", "~1.2", "1.x", "1.2.0 - 1.4.0", joined with "||")
+ * @returns false if the version or the range is invalid
+ */
+export function satisfiesSemver(version: unknown, range: unknown): boolean {
+	const parsed = parseSemver(version);
+
+	if (!parsed || typeof range !== "string") {
+		return false;
+	}
+
+	try {
+		return range
+			.split("||")
+			.map((set) => parseComparatorSet(set.trim()))
+			.some((comparators) =>
+				comparators.every((comparator) => testComparator(parsed, comparator)),
+			);
+	} catch {
+		return false;
+	}
+}
@@ -0,0 +1,211 @@
+import { isIpInCidr } from "./ip";
+import { compareSemver, parseSemver, satisfiesSemver } from "./semver";
+
+export type JexlFunction = (value: unknown, ...args: unknown[]) => unknown;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Stable hash function (FNV-1a 32-bit)
+ * Returns unsigned 32-bit integer
+ */
+export function hashFnv32a(str: string): number {
+	let hval = 0x811c9dc5;
+	for (let i = 0; i < str.length; i++) {
+		hval ^= str.charCodeAt(i);
+		hval +=
+			(hval << 1) + (hval << 4) + (hval << 7) + (hval << 8) + (hval << 24);
+	}
+	return hval >>> 0; // convert to unsigned
+}
+
+/**
+ * Convert a timestamp or date string into a date
+ * @returns the date, or null if the value is not a valid date
+ */
+export function toDate(value: unknown): Date | null {
+	if (typeof value !== "number" && typeof value !== "string") {
+		return null;
+	}
+
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Day of the week (0 = Sunday), hour (0–23) and minute of a date in a timezone
+ * @returns the zoned parts, or null if the date or the timezone is invalid
+ */
+export function getZonedParts(
+	value: unknown,
+	timeZone?: string,
+): { dayOfWeek: number; hour: number; minute: number } | null {
+	const date = toDate(value);
+
+	if (!date) {
+		return null;
+	}
+
+	try {
+		const parts = new Intl.DateTimeFormat("en-US", {
+			timeZone: timeZone ?? "UTC",
+			weekday: "short",
+			hour: "numeric",
+			minute: "numeric",
+			hourCycle: "h23",
+		}).formatToParts(date);
+		const part = (type: string) =>
+			parts.find((item) => item.type === type)?.value;
+
+		return {
+			dayOfWeek: WEEKDAYS.indexOf(part("weekday")),
+			hour: Number(part("hour")),
+			minute: Number(part("minute")),
+		};
+	} catch {
+		// Unknown timezone
+		return null;
+	}
+}
+
+/**
+ * Number of compiled patterns kept per isolate. Patterns can come from the evaluation
+ * input, so the least recently used ones are dropped past this size
+ */
+const REGEX_CACHE_SIZE = 500;
+
+const regexCache = new Map<string, RegExp | null>();
+
+/**
+ * Compile a regular expression once
+ * @returns the regular expression, or null if the pattern or the flags are invalid
+ */
+export const getRegex = (pattern: string, flags = ""): RegExp | null => {
+	const key = `${flags}/${pattern}`;
+
+	if (regexCache.has(key)) {
+		// Move the pattern to the end of the map, the most recently used end
+		const regex = regexCache.get(key);
+		regexCache.delete(key);
+		regexCache.set(key, regex);
+		return regex;
+	}
+
+	let regex: RegExp | null = null;
+	try {
+		regex = new RegExp(pattern, flags);
+	} catch {
+		// Invalid patterns never match
+	}
+
+	if (regexCache.size >= REGEX_CACHE_SIZE) {
+		regexCache.delete(regexCache.keys().next().value);
+	}
+	regexCache.set(key, regex);
+	return regex;
+};
+
+/**
+ * Transforms like `split` only apply to strings, anything else fails the rule
+ */
+const expectString = (value: unknown, transform: string): string => {
+	if (typeof value !== "string") {
+		throw new TypeError(
+			`${transform} expects a string, got ${value === null ? "null" : typeof value}`,
+		);
+	}
+	return value;
+};
+
+const optionalString = (value: unknown) =>
+	typeof value === "string" ? value : undefined;
+
+const toArray = (value: unknown): unknown[] =>
+	Array.isArray(value)
+		? value
+		: value === undefined || value === null
+			? []
+			: [value];
+
+const isInAnyCidr = (ip: unknown, cidrs: unknown) =>
+	toArray(cidrs).some((cidr) => isIpInCidr(ip, cidr));
+
+/**
+ * Transforms available in every rule, applied with a pipe: `user.email|endsWith('@acme.com')`
+ */
+export const stdlibTransforms: Record<string, JexlFunction> = {
+	split: (val, char) => expectString(val, "split").split(String(char)),
+	lower: (val) => expectString(val, "lower").toLowerCase(),
+	upper: (val) => expectString(val, "upper").toUpperCase(),
+
+	// Strings
+	matches: (val, pattern, flags) =>
+		typeof val === "string" && typeof pattern === "string"
+			? (getRegex(pattern, optionalString(flags))?.test(val) ?? false)
+			: false,
+	startsWith: (val, prefix) =>
+		typeof val === "string" && val.startsWith(String(prefix)),
+	endsWith: (val, suffix) =>
+		typeof val === "string" && val.endsWith(String(suffix)),
+
+	// Arrays
+	contains: (val, item) =>
+		Array.isArray(val)
+			? val.includes(item)
+			: typeof val === "string" && val.includes(String(item)),
+	intersects: (val, other) => {
+		const items = toArray(other);
+		return toArray(val).some((item) => items.includes(item));
+	},
+
+	// Numbers
+	toNumber: (val) => {
+		if (typeof val !== "number" && typeof val !== "string") {
+			return null;
+		}
+		const number = typeof val === "number" ? val : Number.parseFloat(val);
+		return Number.isFinite(number) ? number : null;
+	},
+
+	// Dates, given a timestamp or a date string
+	dayOfWeek: (val, timeZone) =>
+		getZonedParts(val, optionalString(timeZone))?.dayOfWeek ?? null,
+	hour: (val, timeZone) =>
+		getZonedParts(val, optionalString(timeZone))?.hour ?? null,
+
+	// Semantic versions
+	major: (val) => parseSemver(val)?.major ?? null,
+	minor: (val) => parseSemver(val)?.minor ?? null,
+	patch: (val) => parseSemver(val)?.patch ?? null,
+	semverCompare: (val, other) => compareSemver(val, other),
+	satisfies: (val, range) => satisfiesSemver(val, range),
+
+	// Networks, given one or more CIDR ranges
+	inCidr: (val, cidrs) => isInAnyCidr(val, cidrs),
+
+	// Hashing
+	hash: (val, seed) =>
+		hashFnv32a(seed === undefined ? String(val) : `${val}:${seed}`),
+};
+
+/**
+ * Functions available in every rule
+ * @param getNow - Returns the time of the evaluation in progress
+ */
+export function createStdlibFunctions(
+	getNow: () => number,
+): Record<string, JexlFunction> {
+	return {
+		ts: (val) => toDate(val)?.getTime() ?? Number.NaN,
+		now: () => getNow(),
+		daysSince: (val) => {
+			const date = toDate(val);
+			return date ? Math.floor((getNow() - date.getTime()) / DAY_MS) : null;
+		},
+		hash: (val, seed) => stdlibTransforms.hash(val, seed),
+		semverCompare: (a, b) => compareSemver(a, b),
+		semverSatisfies: (version, range) => satisfiesSemver(version, range),
+		inCidr: (ip, cidrs) => isInAnyCidr(ip, cidrs),
+	};
+}
@@ -1,11 +1,65 @@
+import {
+	findListReferences,
+	findSegmentReferences,
+	validateExpression,
+} from "./engine";
 import { FlagglyError, tryPromise } from "./error";
-import type {
-	AppData,
-	FeatureFlagInputSchema,
-	SegmentInputSchema,
-	SyncInput,
-	UpdatableFeatureFlagSchema,
+import { type JsonSchema, validateJsonSchema } from "./json-schema";
+import {
+	type AppData,
+	type FeatureFlagInputSchema,
+	type FlagPrerequisite,
+	type FlagTargetsInputSchema,
+	getAllocationError,
+	type Holdout,
+	type Layer,
+	type LayerAllocation,
+	type List,
+	type ListInputSchema,
+	RAMP_WITH_ROLLOUTS_ERROR,
+	type Ramp,
+	type RolloutStep,
+	type SegmentInputSchema,
+	type SyncInput,
+	type TargetingRule,
+	type TargetingServe,
+	type UpdatableFeatureFlagSchema,
+	type WeightSchedule,
 } from "./schema";
+import { hashFnv32a } from "./stdlib";
+
+/**
+ * Number of keys the members of a new list are spread over
+ */
+const LIST_SHARDS = 16;
+
+/**
+ * How long this isolate trusts members it has read. Each shard is cached at the
+ * edge on its own, so a fresh version may briefly come with stale members
+ */
+const LIST_CACHE_TTL = 60_000;
+
+/**
+ * Members of the lists read by this isolate, keyed by their storage key
+ */
+const listCache = new Map<
+	string,
+	{ version: string; expiresAt: number; members: ReadonlySet<string> }
+>();
+
+/**
+ * Group IDs by the shard that stores them
+ */
+const groupByShard = (ids: string[], shards: number) => {
+	const groups = new Map<number, Set<string>>();
+
+	for (const id of ids) {
+		const shard = hashFnv32a(id) % shards;
+		groups.set(shard, (groups.get(shard) ?? new Set()).add(id));
+	}
+
+	return groups;
+};
 
 type AppKVOptions = {
 	kv: KVNamespace;
@@ -26,6 +80,10 @@ export class AppKV {
 
 	cacheKeys = {
 		all: (env?: string) => `v1:${this.app}:${env ?? this.env}`,
+		list: (id: string, env?: string) =>
+			`v1:${this.app}:${env ?? this.env}:lists:${id}`,
+		listShard: (id: string, shard: number, env?: string) =>
+			`${this.cacheKeys.list(id, env)}:${shard}`,
 	};
 
 	async #getData(env?: string) {
@@ -52,6 +110,100 @@ export class AppKV {
 		return this.#getData();
 	}
 
+	// The version changes on every save, so it can key caches derived from the data.
+	// Entries written without metadata (e.g. restored with wrangler) are versioned by their content
+	async getVersionedData() {
+		const { value, metadata } = await this.kv.getWithMetadata<
+			AppData,
+			{ updatedAt?: string }
+		>(this.cacheKeys.all(), "json");
+		const data = value ?? { flags: {}, segments: {} };
+
+		return {
+			data,
+			version:
+				metadata?.updatedAt ?? `content:${hashFnv32a(JSON.stringify(data))}`,
+		};
+	}
+
+	async #getListShard({
+		id,
+		shard,
+		env,
+	}: {
+		id: string;
+		shard: number;
+		env?: string;
+	}) {
+		const members = await this.kv.get<string[]>(
+			this.cacheKeys.listShard(id, shard, env),
+			"json",
+		);
+		return members ?? [];
+	}
+
+	async #putListShard({
+		id,
+		shard,
+		members,
+		env,
+	}: {
+		id: string;
+		shard: number;
+		members: Iterable<string>;
+		env?: string;
+	}) {
+		await this.kv.put(
+			this.cacheKeys.listShard(id, shard, env),
+			JSON.stringify([...members]),
+		);
+	}
+
+	/**
+	 * Members of the lists of the environment, read once per list version
+	 * @param lists - The lists of the environment
+	 * @param ids - Keys of the lists to read, every list when omitted
+	 * @returns the members of each list, keyed by list ID
+	 */
+	async getListMembers({
+		lists = {},
+		ids,
+	}: {
+		lists?: Record<string, List>;
+		ids?: string[];
+	}) {
+		const selected = ids
+			? ids.flatMap((id) => (lists[id] ? [lists[id]] : []))
+			: Object.values(lists);
+
+		const entries = await Promise.all(
+			selected.map(async (list) => {
+				const key = this.cacheKeys.list(list.id);
+				const cached = listCache.get(key);
+
+				if (cached?.version === list.version && cached.expiresAt > Date.now()) {
+					return [list.id, cached.members] as const;
+				}
+
+				const shards = await Promise.all(
+					Array.from({ length: list.shards }, (_, shard) =>
+						this.#getListShard({ id: list.id, shard }),
+					),
+				);
+				const members = new Set(shards.flat());
+
+				listCache.set(key, {
+					version: list.version,
+					expiresAt: Date.now() + LIST_CACHE_TTL,
+					members,
+				});
+				return [list.id, members] as const;
+			}),
+		);
+
+		return Object.fromEntries(entries) as Record<string, ReadonlySet<string>>;
+	}
+
 	#checkSegments({
 		segments,
 		input,
@@ -71,6 +223,612 @@ export class AppKV {
 		}
 	}
 
+	#checkPrerequisites({
+		id,
+		input,
+		data,
+	}: {
+		id: string;
+		input: FlagPrerequisite[];
+		data: AppData;
+	}) {
+		for (const prerequisite of input) {
+			const prerequisiteFlag = data.flags[prerequisite.flag];
+
+			if (!prerequisiteFlag) {
+				throw new FlagglyError(
+					`Add the prerequisite flag "${prerequisite.flag}" before using it`,
+					"INVALID_BODY",
+				);
+			}
+
+			if (
+				prerequisite.variation !== undefined &&
+				!(
+					prerequisiteFlag.type === "variant" &&
+					prerequisiteFlag.variations.some(
+						(variation) => variation.id === prerequisite.variation,
+					)
+				)
+			) {
+				throw new FlagglyError(
+					`Prerequisite flag "${prerequisite.flag}" has no variation "${prerequisite.variation}"`,
+					"INVALID_BODY",
+				);
+			}
+		}
+
+		// Walk the prerequisite graph with the new edges to make sure it stays acyclic
+		const getPrerequisites = (flagId: string) =>
+			flagId === id
+				? input.map((prerequisite) => prerequisite.flag)
+				: (data.flags[flagId]?.prerequisites ?? []).map(
+						(prerequisite) => prerequisite.flag,
+					);
+
+		const visit = (flagId: string, path: string[]) => {
+			for (const next of getPrerequisites(flagId)) {
+				if (next === id) {
+					throw new FlagglyError(
+						`Prerequisite cycle detected: ${[...path, next].join(" -> ")}`,
+						"INVALID_BODY",
+					);
+				}
+				if (!path.includes(next)) {
+					visit(next, [...path, next]);
+				}
+			}
+		};
+
+		visit(id, [id]);
+	}
+
+	#checkSegmentReferences({
+		id,
+		expressions,
+		data,
+	}: {
+		id?: string;
+		expressions: { field: string; expression?: string }[];
+		data: AppData;
+	}) {
+		const segments: string[] = [];
+
+		for (const { field, expression } of expressions) {
+			if (expression === undefined) {
+				continue;
+			}
+
+			const references = findSegmentReferences(expression);
+
+			if (references.isDynamic) {
+				throw new FlagglyError(
+					`segment() in ${field} must be called with a segment key, e.g. segment('beta')`,
+					"INVALID_BODY",
+				);
+			}
+
+			segments.push(...references.segments);
+		}
+
+		const unknownSegment = segments.find(
+			(segment) => segment !== id && data.segments[segment] === undefined,
+		);
+
+		if (unknownSegment !== undefined) {
+			throw new FlagglyError(
+				`Add the segment "${unknownSegment}" before referencing it`,
+				"INVALID_BODY",
+			);
+		}
+
+		// Flags can't be referenced, so only segment rules can close a cycle
+		if (id === undefined) {
+			return;
+		}
+
+		// Walk the segment graph with the new rule to make sure it stays acyclic
+		const getReferences = (segmentId: string) =>
+			segmentId === id
+				? segments
+				: data.segments[segmentId] !== undefined
+					? findSegmentReferences(data.segments[segmentId]).segments
+					: [];
+
+		const visit = (segmentId: string, path: string[]) => {
+			for (const next of getReferences(segmentId)) {
+				if (next === id) {
+					throw new FlagglyError(
+						`Segment cycle detected: ${[...path, next].join(" -> ")}`,
+						"INVALID_BODY",
+					);
+				}
+				if (!path.includes(next)) {
+					visit(next, [...path, next]);
+				}
+			}
+		};
+
+		visit(id, [id]);
+	}
+
+	#checkSegmentDependents({ id, data }: { id: string; data: AppData }) {
+		const segments = Object.entries(data.segments)
+			.filter(
+				([segmentId, rule]) =>
+					segmentId !== id &&
+					findSegmentReferences(rule).segments.includes(id),
+			)
+			.map(([segmentId]) => segmentId);
+		const flags = Object.entries(data.flags)
+			.filter(([, flag]) => this.#getFlagSegmentReferences(flag).includes(id))
+			.map(([flagId]) => flagId);
+		const dependents = [...segments, ...flags];
+
+		if (dependents.length > 0) {
+			throw new FlagglyError(
+				`Segment is referenced by: ${dependents.join(", ")}`,
+				"CONFLICT",
+				{ dependents },
+			);
+		}
+	}
+
+	/**
+	 * Keys of the segments a flag's expressions call with segment()
+	 */
+	#getFlagSegmentReferences(flag: {
+		rules?: string[];
+		bucketBy?: string;
+		targeting?: TargetingRule[];
+	}) {
+		return this.#getFlagExpressions(flag).flatMap(({ expression }) =>
+			expression === undefined
+				? []
+				: findSegmentReferences(expression).segments,
+		);
+	}
+
+	#checkListReferences({
+		expressions,
+		data,
+	}: {
+		expressions: { field: string; expression?: string }[];
+		data: AppData;
+	}) {
+		for (const { field, expression } of expressions) {
+			if (expression === undefined) {
+				continue;
+			}
+
+			const { lists, isDynamic } = findListReferences(expression);
+
+			if (isDynamic) {
+				throw new FlagglyError(
+					`inList() in ${field} must be called with a list key, e.g. inList('beta', user.id)`,
+					"INVALID_BODY",
+				);
+			}
+
+			const unknownList = lists.find(
+				(list) => data.lists?.[list] === undefined,
+			);
+
+			if (unknownList !== undefined) {
+				throw new FlagglyError(
+					`Add the list "${unknownList}" before referencing it`,
+					"INVALID_BODY",
+				);
+			}
+		}
+	}
+
+	#checkListDependents({ id, data }: { id: string; data: AppData }) {
+		const references = (expression?: string) =>
+			expression !== undefined &&
+			findListReferences(expression).lists.includes(id);
+
+		const flags = Object.entries(data.flags)
+			.filter(([, flag]) =>
+				this.#getFlagExpressions(flag).some(({ expression }) =>
+					references(expression),
+				),
+			)
+			.map(([flagId]) => flagId);
+		const segments = Object.entries(data.segments)
+			.filter(([, rule]) => references(rule))
+			.map(([segmentId]) => segmentId);
+
+		if (flags.length > 0 || segments.length > 0) {
+			throw new FlagglyError(
+				`List is referenced by: ${[...flags, ...segments].join(", ")}`,
+				"CONFLICT",
+				{ flags, segments },
+			);
+		}
+	}
+
+	/**
+	 * Keys of segments and every segment they reference, directly or not
+	 */
+	#getSegmentClosure({
+		ids,
+		segments,
+	}: {
+		ids: string[];
+		segments: Record<string, string>;
+	}) {
+		const closure = new Set<string>();
+		const visit = (id: string) => {
+			if (closure.has(id) || segments[id] === undefined) {
+				return;
+			}
+			closure.add(id);
+			for (const next of findSegmentReferences(segments[id]).segments) {
+				visit(next);
+			}
+		};
+
+		for (const id of ids) {
+			visit(id);
+		}
+
+		return [...closure];
+	}
+
+	#checkTargeting({
+		type,
+		variations = [],
+		targeting = [],
+		fallthrough,
+	}: {
+		type: string;
+		variations?: { id: string }[];
+		targeting?: TargetingRule[];
+		fallthrough?: TargetingServe;
+	}) {
+		if (targeting.length === 0 && !fallthrough) {
+			return;
+		}
+
+		if (type !== "variant") {
+			throw new FlagglyError(
+				"Targeting rules are only supported on variant flags",
+				"INVALID_BODY",
+			);
+		}
+
+		const variationIds = variations.map((variation) => variation.id);
+		const serves = [
+			...targeting.map((rule) => rule.serve),
+			...(fallthrough ? [fallthrough] : []),
+		];
+
+		for (const serve of serves) {
+			const servedIds =
+				serve.variation !== undefined
+					? [serve.variation]
+					: (serve.split ?? []).map((split) => split.variation);
+
+			const unknownId = servedIds.find((id) => !variationIds.includes(id));
+
+			if (unknownId !== undefined) {
+				throw new FlagglyError(
+					`Targeting serves unknown variation "${unknownId}"`,
+					"INVALID_BODY",
+				);
+			}
+		}
+	}
+
+	#checkOffValue({
+		type,
+		variations = [],
+		offVariation,
+		defaultPayload,
+	}: {
+		type: string;
+		variations?: { id: string }[];
+		offVariation?: string;
+		defaultPayload?: unknown;
+	}) {
+		if (defaultPayload !== undefined && type !== "payload") {
+			throw new FlagglyError(
+				"Default payloads are only supported on payload flags",
+				"INVALID_BODY",
+			);
+		}
+
+		if (offVariation === undefined) {
+			return;
+		}
+
+		if (type !== "variant") {
+			throw new FlagglyError(
+				"Off variations are only supported on variant flags",
+				"INVALID_BODY",
+			);
+		}
+
+		if (!variations.some((variation) => variation.id === offVariation)) {
+			throw new FlagglyError(
+				`Off variation "${offVariation}" is not a variation of the flag`,
+				"INVALID_BODY",
+			);
+		}
+	}
+
+	#checkPayloads({
+		type,
+		payloadSchema,
+		payload,
+		defaultPayload,
+		variations = [],
+	}: {
+		type: string;
+		payloadSchema?: JsonSchema;
+		payload?: unknown;
+		defaultPayload?: unknown;
+		variations?: { payload?: unknown }[];
+	}) {
+		if (payloadSchema === undefined || type === "boolean") {
+			return;
+		}
+
+		const payloads = [
+			{ field: "payload", value: payload },
+			{ field: "defaultPayload", value: defaultPayload },
+			...variations.map((variation, index) => ({
+				field: `variations[${index}].payload`,
+				value: variation.payload,
+			})),
+		];
+
+		for (const { field, value } of payloads) {
+			// Variations without a payload serve their ID
+			if (value === undefined) {
+				continue;
+			}
+
+			const errors = validateJsonSchema(value, payloadSchema);
+
+			if (errors.length > 0) {
+				const [{ path, message }] = errors;
+				throw new FlagglyError(
+					`Invalid ${field}: ${path || "/"} ${message}`,
+					"INVALID_BODY",
+					{ field, errors },
+				);
+			}
+		}
+	}
+
+	#checkAllocation({
+		type,
+		...flag
+	}: { type: string } & Parameters<typeof getAllocationError>[0]) {
+		if (type !== "variant") {
+			return;
+		}
+
+		const error = getAllocationError(flag);
+
+		if (error) {
+			throw new FlagglyError(error, "INVALID_BODY");
+		}
+	}
+
+	#checkRamp({
+		ramp,
+		rollouts = [],
+	}: {
+		ramp?: Ramp;
+		rollouts?: RolloutStep[];
+	}) {
+		if (ramp !== undefined && rollouts.length > 0) {
+			throw new FlagglyError(RAMP_WITH_ROLLOUTS_ERROR, "INVALID_BODY");
+		}
+	}
+
+	#checkWeightSchedule({
+		type,
+		variations = [],
+		weightSchedule = [],
+	}: {
+		type: string;
+		variations?: { id: string; weight: number }[];
+		weightSchedule?: WeightSchedule;
+	}) {
+		if (weightSchedule.length > 0 && type !== "variant") {
+			throw new FlagglyError(
+				"Weight schedules are only supported on variant flags",
+				"INVALID_BODY",
+			);
+		}
+
+		// Scheduled buckets are assigned in whole percents, from the variation weights on
+		if (
+			weightSchedule.length > 0 &&
+			variations.some((variation) => !Number.isInteger(variation.weight))
+		) {
+			throw new FlagglyError(
+				"Variation weights must be whole percents when a weight schedule is set",
+				"INVALID_BODY",
+			);
+		}
+
+		const variationIds = variations.map((variation) => variation.id);
+
+		for (const [index, entry] of weightSchedule.entries()) {
+			if (!Object.values(entry.weights).every(Number.isInteger)) {
+				throw new FlagglyError(
+					"Weight schedule weights must be whole percents",
+					"INVALID_BODY",
+				);
+			}
+
+			const unknownId = Object.keys(entry.weights).find(
+				(id) => !variationIds.includes(id),
+			);
+
+			if (unknownId !== undefined) {
+				throw new FlagglyError(
+					`Weight schedule sets a weight for unknown variation "${unknownId}"`,
+					"INVALID_BODY",
+				);
+			}
+
+			const previous = weightSchedule[index - 1];
+
+			if (
+				previous &&
+				new Date(entry.start).getTime() <= new Date(previous.start).getTime()
+			) {
+				throw new FlagglyError(
+					"Weight schedule entries must start in ascending order",
+					"INVALID_BODY",
+				);
+			}
+		}
+	}
+
+	#checkDependents({ id, data }: { id: string; data: AppData }) {
+		const dependents = Object.values(data.flags)
+			.filter((flag) =>
+				(flag.prerequisites ?? []).some(
+					(prerequisite) => prerequisite.flag === id,
+				),
+			)
+			.map((flag) => flag.id);
+
+		if (dependents.length > 0) {
+			throw new FlagglyError(
+				`Flag is a prerequisite of: ${dependents.join(", ")}`,
+				"CONFLICT",
+				{ dependents },
+			);
+		}
+	}
+
+	#checkVariationDependents({
+		flag,
+		data,
+	}: {
+		flag: { id: string; type: string; variations?: { id: string }[] };
+		data: AppData;
+	}) {
+		const variations =
+			flag.type === "variant"
+				? (flag.variations ?? []).map((variation) => variation.id)
+				: [];
+
+		const dependents = Object.values(data.flags)
+			.filter(
+				(other) =>
+					other.id !== flag.id &&
+					(other.prerequisites ?? []).some(
+						(prerequisite) =>
+							prerequisite.flag === flag.id &&
+							prerequisite.variation !== undefined &&
+							!variations.includes(prerequisite.variation),
+					),
+			)
+			.map((other) => other.id);
+
+		if (dependents.length > 0) {
+			throw new FlagglyError(
+				`Flag variations are required by: ${dependents.join(", ")}`,
+				"CONFLICT",
+				{ dependents },
+			);
+		}
+	}
+
+	#checkLayer({ layer, data }: { layer: Layer; data: AppData }) {
+		for (const allocation of layer.allocations) {
+			if (!data.flags[allocation.flag]) {
+				throw new FlagglyError(
+					`Add the flag "${allocation.flag}" before allocating it`,
+					"INVALID_BODY",
+				);
+			}
+
+			const otherLayer = Object.values(data.layers ?? {}).find(
+				(item) =>
+					item.id !== layer.id &&
+					item.allocations.some((other) => other.flag === allocation.flag),
+			);
+
+			if (otherLayer) {
+				throw new FlagglyError(
+					`Flag "${allocation.flag}" is already allocated in layer "${otherLayer.id}"`,
+					"INVALID_BODY",
+				);
+			}
+		}
+
+		const sorted = [...layer.allocations].sort((a, b) => a.start - b.start);
+
+		for (let index = 1; index < sorted.length; index++) {
+			const previous = sorted[index - 1];
+			const current = sorted[index];
+
+			if (previous.flag === current.flag) {
+				throw new FlagglyError(
+					`Flag "${current.flag}" is allocated more than once`,
+					"INVALID_BODY",
+				);
+			}
+
+			if (current.start < previous.end) {
+				throw new FlagglyError(
+					`Layer allocations overlap: "${previous.flag}" and "${current.flag}"`,
+					"INVALID_BODY",
+				);
+			}
+		}
+	}
+
+	#checkExpressions(expressions: { field: string; expression?: string }[]) {
+		for (const { field, expression } of expressions) {
+			if (expression === undefined) {
+				continue;
+			}
+
+			const error = validateExpression(expression);
+
+			if (error) {
+				throw new FlagglyError(
+					`Invalid expression in ${field} at position ${error.position}: ${error.message}`,
+					"INVALID_BODY",
+					{ field, expression, ...error },
+				);
+			}
+		}
+	}
+
+	#getFlagExpressions({
+		rules = [],
+		bucketBy,
+		targeting = [],
+	}: {
+		rules?: string[];
+		bucketBy?: string;
+		targeting?: TargetingRule[];
+	}) {
+		return [
+			...rules.map((expression, index) => ({
+				field: `rules[${index}]`,
+				expression,
+			})),
+			{ field: "bucketBy", expression: bucketBy },
+			...targeting.map((rule, index) => ({
+				field: `targeting[${index}].condition`,
+				expression: rule.condition,
+			})),
+		];
+	}
+
 	#checkFlag({ id, data }: { id: string; data: AppData }) {
 		if (!Object.keys(data.flags).includes(id)) {
 			throw new FlagglyError("Flag not found", "NOT_FOUND");
@@ -85,6 +843,29 @@ export class AppKV {
 			segments: data.segments,
 		});
 
+		this.#checkPrerequisites({
+			id: flag.id,
+			input: flag?.prerequisites ?? [],
+			data,
+		});
+		this.#checkVariationDependents({ flag, data });
+
+		this.#checkTargeting(flag);
+		this.#checkWeightSchedule(flag);
+		this.#checkOffValue(flag);
+		this.#checkAllocation(flag);
+		this.#checkPayloads(flag);
+
+		this.#checkExpressions(this.#getFlagExpressions(flag));
+		this.#checkSegmentReferences({
+			expressions: this.#getFlagExpressions(flag),
+			data,
+		});
+		this.#checkListReferences({
+			expressions: this.#getFlagExpressions(flag),
+			data,
+		});
+
 		data.flags[flag.id] = flag;
 		await this.#saveData(data);
 		return data;
@@ -113,6 +894,47 @@ export class AppKV {
 
 		this.#checkFlag({ id, data });
 
+		if (update.prerequisites !== undefined) {
+			this.#checkPrerequisites({
+				id,
+				input: update.prerequisites,
+				data,
+			});
+		}
+		this.#checkVariationDependents({
+			flag: { ...data.flags[id], ...update },
+			data,
+		});
+
+		this.#checkTargeting({ ...data.flags[id], ...update });
+		this.#checkWeightSchedule({ ...data.flags[id], ...update });
+		this.#checkOffValue({ ...data.flags[id], ...update });
+		// Flags saved before weights were validated keep working until their weights change
+		if (
+			update.variations !== undefined ||
+			update.targeting !== undefined ||
+			update.fallthrough !== undefined ||
+			update.weightSchedule !== undefined ||
+			update.isPartial !== undefined
+		) {
+			this.#checkAllocation({ ...data.flags[id], ...update });
+		}
+		this.#checkPayloads({ ...data.flags[id], ...update });
+
+		if (update.ramp !== undefined || update.rollouts !== undefined) {
+			this.#checkRamp({ ...data.flags[id], ...update });
+		}
+
+		this.#checkExpressions(this.#getFlagExpressions(update));
+		this.#checkSegmentReferences({
+			expressions: this.#getFlagExpressions(update),
+			data,
+		});
+		this.#checkListReferences({
+			expressions: this.#getFlagExpressions(update),
+			data,
+		});
+
 		data.flags[id] = Object.assign(data.flags[id], update);
 		await this.#saveData(data);
 		return data;
@@ -131,13 +953,175 @@ export class AppKV {
 		});
 	}
 
+	#getTargetVariation({
+		flag,
+		variation,
+	}: {
+		flag: FeatureFlagInputSchema;
+		variation?: string;
+	}) {
+		if (variation === undefined) {
+			return null;
+		}
+
+		const target =
+			flag.type === "variant"
+				? flag.variations.find((item) => item.id === variation)
+				: undefined;
+
+		if (!target) {
+			throw new FlagglyError(
+				`Flag has no variation "${variation}"`,
+				"INVALID_BODY",
+			);
+		}
+
+		return target;
+	}
+
+	async #addFlagTargets({
+		id,
+		targets,
+	}: {
+		id: string;
+		targets: FlagTargetsInputSchema;
+	}) {
+		const data = await this.#getData();
+
+		this.#checkFlag({ id, data });
+
+		const flag = data.flags[id];
+		const variation = this.#getTargetVariation({
+			flag,
+			variation: targets.variation,
+		});
+		const without = (list?: string[]) =>
+			list?.filter((userId) => !targets.ids.includes(userId));
+
+		// A user ID belongs to a single list, so move it out of all the other lists
+		flag.include = without(flag.include);
+		flag.exclude = without(flag.exclude);
+		if (flag.type === "variant") {
+			for (const item of flag.variations) {
+				item.include = without(item.include);
+			}
+		}
+
+		const target = variation ?? flag;
+		const list = variation ? "include" : targets.list;
+		target[list] = [...new Set([...(target[list] ?? []), ...targets.ids])];
+
+		await this.#saveData(data);
+		return data;
+	}
+
+	async addFlagTargets({
+		id,
+		targets,
+	}: {
+		id: string;
+		targets: FlagTargetsInputSchema;
+	}) {
+		return tryPromise(this.#addFlagTargets({ id, targets }), {
+			message: "Failed to add flag targets",
+			code: "UPDATE_FAILED",
+		});
+	}
+
+	async #removeFlagTargets({
+		id,
+		targets,
+	}: {
+		id: string;
+		targets: FlagTargetsInputSchema;
+	}) {
+		const data = await this.#getData();
+
+		this.#checkFlag({ id, data });
+
+		const flag = data.flags[id];
+		const variation = this.#getTargetVariation({
+			flag,
+			variation: targets.variation,
+		});
+
+		const target = variation ?? flag;
+		const list = variation ? "include" : targets.list;
+		target[list] = (target[list] ?? []).filter(
+			(userId) => !targets.ids.includes(userId),
+		);
+
+		await this.#saveData(data);
+		return data;
+	}
+
+	async removeFlagTargets({
+		id,
+		targets,
+	}: {
+		id: string;
+		targets: FlagTargetsInputSchema;
+	}) {
+		return tryPromise(this.#removeFlagTargets({ id, targets }), {
+			message: "Failed to remove flag targets",
+			code: "UPDATE_FAILED",
+		});
+	}
+
+	async #getPayloadSchema({ id }: { id: string }) {
+		const data = await this.#getData();
+
+		this.#checkFlag({ id, data });
+
+		const flag = data.flags[id];
+
+		if (flag.type === "boolean" || flag.payloadSchema === undefined) {
+			throw new FlagglyError("Flag has no payload schema", "NOT_FOUND");
+		}
+
+		return flag.payloadSchema;
+	}
+
+	async getPayloadSchema({ id }: { id: string }) {
+		return tryPromise(this.#getPayloadSchema({ id }), {
+			message: "Failed to get payload schema",
+			code: "NOT_FOUND",
+		});
+	}
+
+	async #randomizeFlag({ id }: { id: string }) {
+		const data = await this.#getData();
+
+		this.#checkFlag({ id, data });
+
+		// A new salt reshuffles every bucket of the flag
+		data.flags[id].salt = crypto.randomUUID();
+
+		await this.#saveData(data);
+		return data;
+	}
+
+	async randomizeFlag({ id }: { id: string }) {
+		return tryPromise(this.#randomizeFlag({ id }), {
+			message: "Failed to randomize flag",
+			code: "UPDATE_FAILED",
+		});
+	}
+
 	async #deleteFlag({ id }: { id: string }) {
 		const data = await this.#getData();
 
 		this.#checkFlag({ id, data });
+		this.#checkDependents({ id, data });
 
 		Reflect.deleteProperty(data.flags, id);
 
+		for (const layer of Object.values(data.layers ?? {})) {
+			layer.allocations = layer.allocations.filter(
+				(allocation) => allocation.flag !== id,
+			);
+		}
+
 		await this.#saveData(data);
 
 		return data;
@@ -152,6 +1136,18 @@ export class AppKV {
 
 	async #putSegment({ id, rule }: SegmentInputSchema) {
 		const data = await this.#getData();
+
+		this.#checkExpressions([{ field: "rule", expression: rule }]);
+		this.#checkSegmentReferences({
+			id,
+			expressions: [{ field: "rule", expression: rule }],
+			data,
+		});
+		this.#checkListReferences({
+			expressions: [{ field: "rule", expression: rule }],
+			data,
+		});
+
 		data.segments[id] = rule;
 		await this.#saveData(data);
 		return data;
@@ -171,6 +1167,8 @@ export class AppKV {
 			throw new FlagglyError("Cannot delete non existing segment", "NOT_FOUND");
 		}
 
+		this.#checkSegmentDependents({ id, data });
+
 		Reflect.deleteProperty(data.segments, id);
 
 		for (const flagId in data.flags) {
@@ -195,6 +1193,287 @@ export class AppKV {
 		});
 	}
 
+	async #putLayer({ layer }: { layer: Layer }) {
+		const data = await this.#getData();
+
+		this.#checkLayer({ layer, data });
+
+		data.layers = { ...data.layers, [layer.id]: layer };
+		await this.#saveData(data);
+		return data;
+	}
+
+	async putLayer({ layer }: { layer: Layer }) {
+		return tryPromise(this.#putLayer({ layer }), {
+			message: "Failed to save layer",
+			code: "PUT_FAILED",
+		});
+	}
+
+	async #allocateLayerFlag({
+		id,
+		allocation,
+	}: {
+		id: string;
+		allocation: LayerAllocation;
+	}) {
+		const data = await this.#getData();
+		const layer = data.layers?.[id];
+
+		if (!layer) {
+			throw new FlagglyError("Layer not found", "NOT_FOUND");
+		}
+
+		// Re-allocating a flag replaces its previous range
+		const updated: Layer = {
+			...layer,
+			allocations: [
+				...layer.allocations.filter((item) => item.flag !== allocation.flag),
+				allocation,
+			],
+		};
+
+		this.#checkLayer({ layer: updated, data });
+
+		data.layers[id] = updated;
+		await this.#saveData(data);
+		return data;
+	}
+
+	async allocateLayerFlag({
+		id,
+		allocation,
+	}: {
+		id: string;
+		allocation: LayerAllocation;
+	}) {
+		return tryPromise(this.#allocateLayerFlag({ id, allocation }), {
+			message: "Failed to allocate flag",
+			code: "UPDATE_FAILED",
+		});
+	}
+
+	async #deleteLayer({ id }: { id: string }) {
+		const data = await this.#getData();
+
+		if (!data.layers?.[id]) {
+			throw new FlagglyError("Cannot delete non existing layer", "NOT_FOUND");
+		}
+
+		Reflect.deleteProperty(data.layers, id);
+
+		await this.#saveData(data);
+		return data;
+	}
+
+	async deleteLayer({ id }: { id: string }) {
+		return tryPromise(this.#deleteLayer({ id }), {
+			message: "Failed to delete layer",
+			code: "DELETE_FAILED",
+		});
+	}
+
+	async #putHoldout({ holdout }: { holdout: Holdout }) {
+		const data = await this.#getData();
+		data.holdout = holdout;
+		await this.#saveData(data);
+		return data;
+	}
+
+	async putHoldout({ holdout }: { holdout: Holdout }) {
+		return tryPromise(this.#putHoldout({ holdout }), {
+			message: "Failed to save holdout",
+			code: "PUT_FAILED",
+		});
+	}
+
+	#getList({ id, data }: { id: string; data: AppData }) {
+		const list = data.lists?.[id];
+
+		if (!list) {
+			throw new FlagglyError("List not found", "NOT_FOUND");
+		}
+
+		return list;
+	}
+
+	#touchList(list: List, size: number): List {
+		return {
+			...list,
+			size,
+			version: crypto.randomUUID(),
+			updatedAt: new Date().toISOString(),
+		};
+	}
+
+	async #putList({ list }: { list: ListInputSchema }) {
+		const data = await this.#getData();
+		const existing = data.lists?.[list.id];
+
+		data.lists = {
+			...data.lists,
+			[list.id]: existing
+				? { ...existing, ...list }
+				: {
+						...list,
+						shards: LIST_SHARDS,
+						size: 0,
+						version: crypto.randomUUID(),
+						updatedAt: new Date().toISOString(),
+					},
+		};
+		await this.#saveData(data);
+		return data;
+	}
+
+	async putList({ list }: { list: ListInputSchema }) {
+		return tryPromise(this.#putList({ list }), {
+			message: "Failed to save list",
+			code: "PUT_FAILED",
+		});
+	}
+
+	async #changeListMembers({
+		id,
+		ids,
+		action,
+	}: {
+		id: string;
+		ids: string[];
+		action: "add" | "remove";
+	}) {
+		const data = await this.#getData();
+		const list = this.#getList({ id, data });
+		let size = list.size;
+
+		// Only the shards holding the given IDs are read and written
+		await Promise.all(
+			[...groupByShard(ids, list.shards)].map(async ([shard, shardIds]) => {
+				const members = new Set(await this.#getListShard({ id, shard }));
+				const previousSize = members.size;
+
+				for (const memberId of shardIds) {
+					if (action === "add") {
+						members.add(memberId);
+					} else {
+						members.delete(memberId);
+					}
+				}
+
+				if (members.size !== previousSize) {
+					size += members.size - previousSize;
+					await this.#putListShard({ id, shard, members });
+				}
+			}),
+		);
+
+		data.lists[id] = this.#touchList(list, size);
+		await this.#saveData(data);
+		return data.lists[id];
+	}
+
+	async addListMembers({ id, ids }: { id: string; ids: string[] }) {
+		return tryPromise(this.#changeListMembers({ id, ids, action: "add" }), {
+			message: "Failed to add list members",
+			code: "UPDATE_FAILED",
+		});
+	}
+
+	async removeListMembers({ id, ids }: { id: string; ids: string[] }) {
+		return tryPromise(this.#changeListMembers({ id, ids, action: "remove" }), {
+			message: "Failed to remove list members",
+			code: "UPDATE_FAILED",
+		});
+	}
+
+	async #replaceListMembers({ id, ids }: { id: string; ids: string[] }) {
+		const data = await this.#getData();
+		const list = this.#getList({ id, data });
+		const groups = groupByShard(ids, list.shards);
+
+		// Every shard is written, emptying the ones without members
+		await Promise.all(
+			Array.from({ length: list.shards }, (_, shard) =>
+				this.#putListShard({ id, shard, members: groups.get(shard) ?? [] }),
+			),
+		);
+
+		const size = [...groups.values()].reduce(
+			(total, members) => total + members.size,
+			0,
+		);
+
+		data.lists[id] = this.#touchList(list, size);
+		await this.#saveData(data);
+		return data.lists[id];
+	}
+
+	async replaceListMembers({ id, ids }: { id: string; ids: string[] }) {
+		return tryPromise(this.#replaceListMembers({ id, ids }), {
+			message: "Failed to upload list members",
+			code: "PUT_FAILED",
+		});
+	}
+
+	async #deleteList({ id }: { id: string }) {
+		const data = await this.#getData();
+		const list = this.#getList({ id, data });
+
+		this.#checkListDependents({ id, data });
+
+		await Promise.all(
+			Array.from({ length: list.shards }, (_, shard) =>
+				this.kv.delete(this.cacheKeys.listShard(id, shard)),
+			),
+		);
+
+		Reflect.deleteProperty(data.lists, id);
+
+		await this.#saveData(data);
+		return data;
+	}
+
+	async deleteList({ id }: { id: string }) {
+		return tryPromise(this.#deleteList({ id }), {
+			message: "Failed to delete list",
+			code: "DELETE_FAILED",
+		});
+	}
+
+	/**
+	 * Copy lists and their members to another environment
+	 */
+	async #copyLists({
+		ids,
+		source,
+		target,
+	}: {
+		ids: string[];
+		source: { env: string; data: AppData };
+		target: { env: string; data: AppData };
+	}) {
+		for (const id of ids) {
+			const list = source.data.lists?.[id];
+
+			if (!list) {
+				continue;
+			}
+
+			await Promise.all(
+				Array.from({ length: list.shards }, async (_, shard) =>
+					this.#putListShard({
+						id,
+						shard,
+						members: await this.#getListShard({ id, shard, env: source.env }),
+						env: target.env,
+					}),
+				),
+			);
+
+			target.data.lists = { ...target.data.lists, [id]: list };
+		}
+	}
+
 	async #syncEnv(input: SyncInput) {
 		const sourceEnv = await this.#getData(input.sourceEnv ?? this.env);
 		const targetEnv = await this.#getData(input.targetEnv);
@@ -213,6 +1492,20 @@ export class AppKV {
 			targetEnv.segments[segmentKey] = segment;
 		}
 
+		if (sourceEnv.layers) {
+			targetEnv.layers = { ...targetEnv.layers, ...sourceEnv.layers };
+		}
+
+		if (sourceEnv.holdout) {
+			targetEnv.holdout = sourceEnv.holdout;
+		}
+
+		await this.#copyLists({
+			ids: Object.keys(sourceEnv.lists ?? {}),
+			source: { env: input.sourceEnv ?? this.env, data: sourceEnv },
+			target: { env: input.targetEnv, data: targetEnv },
+		});
+
 		await this.#saveData(targetEnv, input.targetEnv);
 
 		return targetEnv;
@@ -235,18 +1528,52 @@ export class AppKV {
 
 		const flag = sourceEnv.flags[flagKey];
 
+		// Prerequisites are not copied, a flag missing from the target would always fail them
+		const missing = (flag.prerequisites ?? [])
+			.map((prerequisite) => prerequisite.flag)
+			.filter((prerequisite) => !targetEnv.flags[prerequisite]);
+
+		if (missing.length > 0) {
+			throw new FlagglyError(
+				`Sync the prerequisite flags first: ${missing.join(", ")}`,
+				"CONFLICT",
+				{ missing },
+			);
+		}
+
 		if (!input.overwrite) {
 			flag.enabled = false;
 		}
 
 		targetEnv.flags[flagKey] = flag;
 
-		const flagSegments = flag?.segments ?? [];
+		// Segments of the flag and its expressions come along with the segments they reference
+		const flagSegments = this.#getSegmentClosure({
+			ids: [
+				...(flag?.segments ?? []),
+				...this.#getFlagSegmentReferences(flag),
+			],
+			segments: sourceEnv.segments,
+		});
 
 		for (const sourceSegment of flagSegments) {
 			targetEnv.segments[sourceSegment] = sourceEnv.segments[sourceSegment];
 		}
 
+		// So do the lists the flag and its segments read
+		const flagLists = [
+			...this.#getFlagExpressions(flag).map(({ expression }) => expression),
+			...flagSegments.map((segment) => sourceEnv.segments[segment]),
+		].flatMap((expression) =>
+			expression === undefined ? [] : findListReferences(expression).lists,
+		);
+
+		await this.#copyLists({
+			ids: [...new Set(flagLists)],
+			source: { env: input.sourceEnv ?? this.env, data: sourceEnv },
+			target: { env: input.targetEnv, data: targetEnv },
+		});
+
 		await this.#saveData(targetEnv, input.targetEnv);
 
 		return targetEnv;